@@ -13,7 +13,7 @@ async function basicUsage() {
 
   // Save a simple context
   console.log("1. Saving a context...");
-  const saved = processor.save({
+  const saved = await processor.save({
     title: "Getting Started with React",
     content: "React is a JavaScript library for building user interfaces with components.",
     tags: ["react", "javascript", "frontend"],
@@ -28,7 +28,7 @@ async function basicUsage() {
   // Load the context back
   console.log("2. Loading the context...");
   const loaded = processor.load(saved.id);
-  console.log(`✓ Loaded: "${loaded.title}"\n`);
+  console.log(`✓ Loaded: "${loaded?.title}"\n`);
 
   // List all contexts
   console.log("3. Listing all contexts...");
@@ -25,7 +25,7 @@ async function comprehensiveProcessing() {
 
   console.log("Processing content with 'comprehensive' model...\n");
 
-  const result = processor.save(
+  const result = await processor.save(
     {
       title: "The Future of Web Development",
       content: blogPost.trim(),
@@ -36,7 +36,7 @@ async function searchOptimization() {
 
   const results = [];
   for (const doc of documents) {
-    const saved = processor.save(
+    const saved = await processor.save(
       {
         title: doc.title,
         content: doc.content,
@@ -58,8 +58,8 @@ async function searchOptimization() {
     console.log(`   - ${doc.title}`);
   });
 
-  // Search with multiple tags (AND logic)
-  console.log("\n2. Search for both 'javascript' AND 'async' tags:");
+  // Search with multiple tags (matches any of them)
+  console.log("\n2. Search for 'javascript' OR 'async' tags:");
   const asyncResults = processor.search({
     tags: ["javascript", "async"]
   });
@@ -67,9 +67,11 @@ async function searchOptimization() {
     console.log(`   - ${doc.title}`);
   });
 
-  // List and filter by metadata
-  console.log("\n3. Filter by metadata (category: 'tutorial'):");
-  const tutorials = processor.list().filter((doc) => doc.metadata?.category === "tutorial");
+  // Filter with a query expression
+  console.log("\n3. Filter by metadata (category: 'tutorial') without 'react':");
+  const tutorials = processor.list({
+    query: "metadata.category == tutorial AND NOT tag:react"
+  });
   tutorials.forEach((doc) => {
     console.log(`   - ${doc.title}`);
   });
@@ -77,8 +79,10 @@ async function searchOptimization() {
   // Get model info
   console.log("\n4. Search Optimized Model Details:");
   const modelInfo = processor.getModelInfo("search_optimized");
-  console.log(`   Strategies: ${modelInfo.strategies.join(", ")}`);
-  console.log(`   Description: ${modelInfo.description}`);
+  if (modelInfo) {
+    console.log(`   Strategies: ${modelInfo.strategies.join(", ")}`);
+    console.log(`   Description: ${modelInfo.description}`);
+  }
 
   // Cleanup
   console.log("\n--- Cleanup ---");
@@ -46,7 +46,7 @@ async function batchOperations() {
   const savedIds = [];
 
   for (const doc of documents) {
-    const saved = processor.save(doc);
+    const saved = await processor.save(doc);
     savedIds.push(saved.id);
   }
 
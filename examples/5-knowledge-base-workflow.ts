@@ -52,7 +52,7 @@ async function knowledgeBaseWorkflow() {
 
   const savedIds = [];
   for (const article of articles) {
-    const saved = processor.save(
+    const saved = await processor.save(
       {
         title: article.title,
         content: article.content,
@@ -118,17 +118,15 @@ async function knowledgeBaseWorkflow() {
   console.log("Step 5: Updating an article...");
   const firstDoc = processor.list()[0];
   if (firstDoc) {
-    const updated = processor.save({
-      id: firstDoc.id,
-      title: firstDoc.title,
+    const updated = await processor.update({
+      contextId: firstDoc.id,
       content: firstDoc.content + "\n\nUpdated with additional information.",
-      tags: [...firstDoc.tags, "updated"],
+      addTags: ["updated"],
       metadata: {
-        ...firstDoc.metadata,
         updatedAt: new Date().toISOString()
       }
     });
-    console.log(`  ✓ Updated: ${updated.title}`);
+    console.log(`  ✓ Updated: ${updated?.title}`);
   }
   console.log("");
 
@@ -0,0 +1,137 @@
+import * as fs from "fs";
+import { createHash, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { formatIssues } from "./strategies.js";
+import { ApiToken, TokenScope } from "./types.js";
+
+/** Scope each tool requires when the caller is authenticated by a token */
+export const TOOL_SCOPES: Record<string, TokenScope> = {
+  load_context: "read",
+  list_contexts: "read",
+  search_contexts: "read",
+  list_revisions: "read",
+  get_revision: "read",
+  list_models: "read",
+  get_model_info: "read",
+  save_context: "write",
+  update_context: "write",
+  restore_revision: "write",
+  delete_context: "delete",
+  create_model: "admin",
+  update_model: "admin",
+  delete_model: "admin",
+  validate_models: "admin",
+};
+
+const tokensFileSchema = z
+  .object({
+    tokens: z.array(
+      z
+        .object({
+          name: z.string().min(1),
+          token: z.string().min(1),
+          scopes: z.array(z.enum(["read", "write", "delete", "admin"])),
+        })
+        .strict()
+    ),
+  })
+  .strict();
+
+const digest = (token: string) => createHash("sha256").update(token).digest();
+
+/**
+ * API tokens accepted by the HTTP transport, each with its own scopes
+ */
+export class TokenStore {
+  private tokens: Array<ApiToken & { digest: Buffer }>;
+
+  /**
+   * Read tokens from a JSON file of the form
+   * `{ "tokens": [{ "name", "token", "scopes" }] }`
+   */
+  static fromFile(filePath: string): TokenStore {
+    let data: unknown;
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    } catch (error) {
+      throw new Error(
+        `Cannot read tokens file ${filePath}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+    const parsed = tokensFileSchema.safeParse(data);
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid tokens file ${filePath}: ${formatIssues(parsed.error.issues)}`
+      );
+    }
+    return new TokenStore(parsed.data.tokens);
+  }
+
+  constructor(tokens: ApiToken[]) {
+    const names = new Set<string>();
+    const values = new Set<string>();
+    tokens.forEach((entry) => {
+      if (names.has(entry.name)) {
+        throw new Error(`Duplicate token name "${entry.name}"`);
+      }
+      if (values.has(entry.token)) {
+        throw new Error(`Token "${entry.name}" reuses the value of another token`);
+      }
+      names.add(entry.name);
+      values.add(entry.token);
+    });
+    this.tokens = tokens.map((entry) => ({ ...entry, digest: digest(entry.token) }));
+  }
+
+  get size(): number {
+    return this.tokens.length;
+  }
+
+  /**
+   * Look up the token of an `Authorization: Bearer <token>` header.
+   * Returns undefined for a missing header or an unknown token.
+   */
+  authenticate(authorization: string | undefined): AuthInfo | undefined {
+    const match = /^Bearer\s+(\S+)\s*$/i.exec(authorization || "");
+    if (!match) return undefined;
+
+    const presented = digest(match[1]);
+    const entry = this.tokens.find((candidate) =>
+      timingSafeEqual(candidate.digest, presented)
+    );
+    return entry
+      ? { token: match[1], clientId: entry.name, scopes: [...entry.scopes] }
+      : undefined;
+  }
+}
+
+/**
+ * Whether a caller holds a scope. Calls without auth info (stdio, or
+ * HTTP without tokens) hold every scope.
+ */
+export function hasScope(authInfo: AuthInfo | undefined, scope: TokenScope): boolean {
+  return !authInfo || authInfo.scopes.includes(scope);
+}
+
+/**
+ * Scope a tool requires; tools missing from TOOL_SCOPES require `admin`
+ */
+export function toolScope(tool: string): TokenScope {
+  return Object.prototype.hasOwnProperty.call(TOOL_SCOPES, tool)
+    ? TOOL_SCOPES[tool]
+    : "admin";
+}
+
+/**
+ * The scope a caller lacks to run a tool, or undefined when allowed
+ */
+export function missingScope(
+  tool: string,
+  authInfo: AuthInfo | undefined
+): TokenScope | undefined {
+  const required = toolScope(tool);
+  return hasScope(authInfo, required) ? undefined : required;
+}
@@ -0,0 +1,63 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import { ContextMCPServer } from "./server.js";
+import { loadConfig, parseArgs } from "./config.js";
+import { createLogger } from "./logger.js";
+import { formatModelError, validateModelsFile } from "./models.js";
+import { getStrategy, loadStrategyPlugins } from "./strategies.js";
+import { ContextStorage } from "./storage.js";
+import { SqliteContextStorage } from "./sqlite-storage.js";
+import { ResolvedConfig } from "./types.js";
+
+// Flags may appear anywhere; the remaining arguments select a command
+let config: ResolvedConfig;
+let command: string | undefined;
+let args: string[];
+try {
+  const { positionals, flags } = parseArgs(process.argv.slice(2));
+  [command, ...args] = positionals;
+  config = loadConfig({ flags });
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
+
+if (command === "migrate-sqlite") {
+  // Import an existing contexts/ directory into a SQLite database
+  const [sourceDir = config.config.storageDir, dbFile = config.config.storageFile] = args;
+  if (!fs.existsSync(sourceDir)) {
+    console.error(`Contexts directory not found: ${sourceDir}`);
+    process.exit(1);
+  }
+  const target = new SqliteContextStorage(dbFile);
+  const imported = target.importFrom(new ContextStorage(sourceDir));
+  target.close();
+  console.error(`Imported ${imported} context(s) from ${sourceDir} into ${dbFile}`);
+} else if (command === "validate-models") {
+  // Check a models file, including strategies from the configured plugins directory
+  const [modelsFile = config.config.modelsPath] = args;
+  const { pluginsDir } = config.config;
+  if (!fs.existsSync(modelsFile)) {
+    console.error(`Models file not found: ${modelsFile}`);
+    process.exit(1);
+  }
+  const logger = createLogger(config.config.logLevel);
+  (pluginsDir ? loadStrategyPlugins(pluginsDir, logger) : Promise.resolve([])).then((plugins) => {
+    const result = validateModelsFile(modelsFile, {
+      resolveStrategy: (name) =>
+        plugins.find((p) => p.name === name) || getStrategy(name),
+    });
+    result.errors.forEach((error) => console.error(formatModelError(error)));
+    console.error(
+      `${result.models.length} valid model(s), ${result.errors.length} error(s) in ${modelsFile}`
+    );
+    process.exit(result.valid ? 0 : 1);
+  });
+} else {
+  // Start the server
+  const server = ContextMCPServer.fromConfig(config);
+  server.start().catch((error) => {
+    console.error("Server error:", error);
+    process.exit(1);
+  });
+}
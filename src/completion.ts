@@ -0,0 +1,76 @@
+import { ContextProcessor } from "./processor.js";
+
+/** Most values in one completion result, the limit set by MCP */
+export const MAX_COMPLETIONS = 100;
+
+export interface CompletionResult {
+  values: string[];
+  /** Number of matches, including those beyond MAX_COMPLETIONS */
+  total: number;
+  hasMore: boolean;
+}
+
+type Completer = (processor: ContextProcessor, value: string) => string[];
+
+const hasPrefix = (candidate: string, prefix: string) =>
+  candidate.toLowerCase().startsWith(prefix.toLowerCase());
+
+const completeModelName: Completer = (processor, value) =>
+  processor
+    .listModels()
+    .map((model) => model.name)
+    .filter((name) => hasPrefix(name, value));
+
+const completeTag: Completer = (processor, value) =>
+  processor.listTags().filter((tag) => hasPrefix(tag, value));
+
+/** IDs of contexts whose ID or title starts with the value, most recently updated first */
+const completeContextId: Completer = (processor, value) =>
+  processor
+    .list({ sortBy: "updatedAt", order: "desc" })
+    .filter((context) => hasPrefix(context.id, value) || hasPrefix(context.title, value))
+    .map((context) => context.id);
+
+/**
+ * Complete the last entry of a comma- or whitespace-separated list,
+ * keeping the entries before it
+ */
+const completeLastEntry =
+  (completer: Completer): Completer =>
+  (processor, value) => {
+    const [, head = "", last] = /^(.*[\s,])?([^\s,]*)$/.exec(value)!;
+    return completer(processor, last).map((match) => head + match);
+  };
+
+/**
+ * Completer for each argument name, shared by tool arguments, prompt
+ * arguments and resource template variables
+ */
+const COMPLETERS = new Map<string, Completer>([
+  ["modelName", completeModelName],
+  ["tag", completeTag],
+  ["tags", completeTag],
+  ["addTags", completeTag],
+  ["removeTags", completeTag],
+  ["id", completeContextId],
+  ["contextId", completeContextId],
+  ["contextIds", completeLastEntry(completeContextId)],
+]);
+
+/**
+ * Suggest values for an argument from the models, the tags in storage
+ * and the stored contexts. Arguments without a completer get no values.
+ */
+export function completeArgument(
+  processor: ContextProcessor,
+  name: string,
+  value: string
+): CompletionResult {
+  const completer = COMPLETERS.get(name);
+  const matches = completer ? completer(processor, value) : [];
+  return {
+    values: matches.slice(0, MAX_COMPLETIONS),
+    total: matches.length,
+    hasMore: matches.length > MAX_COMPLETIONS,
+  };
+}
@@ -0,0 +1,226 @@
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import { formatIssues } from "./strategies.js";
+import { ConfigSource, ResolvedConfig, ServerConfig } from "./types.js";
+
+/** Read from the working directory when no config file is given */
+export const DEFAULT_CONFIG_FILE = "context-processor.config.json";
+
+/** Environment variable for each setting */
+export const CONFIG_ENV_VARS: Record<keyof ServerConfig, string> = {
+  storageType: "CONTEXT_PROCESSOR_STORAGE_TYPE",
+  storageDir: "CONTEXT_PROCESSOR_STORAGE_DIR",
+  storageFile: "CONTEXT_PROCESSOR_STORAGE_FILE",
+  modelsPath: "CONTEXT_PROCESSOR_MODELS_PATH",
+  logLevel: "CONTEXT_PROCESSOR_LOG_LEVEL",
+  transport: "CONTEXT_PROCESSOR_TRANSPORT",
+  host: "CONTEXT_PROCESSOR_HOST",
+  port: "CONTEXT_PROCESSOR_PORT",
+  unknownModel: "CONTEXT_PROCESSOR_UNKNOWN_MODEL",
+  tokensFile: "CONTEXT_PROCESSOR_TOKENS_FILE",
+  pluginsDir: "CONTEXT_PROCESSOR_PLUGINS_DIR",
+  maxRevisions: "CONTEXT_PROCESSOR_MAX_REVISIONS",
+  maxAgeDays: "CONTEXT_PROCESSOR_MAX_AGE_DAYS",
+};
+
+/** CLI flag (without the leading `--`) for each setting */
+export const CONFIG_FLAGS: Record<keyof ServerConfig, string> = {
+  storageType: "storage-type",
+  storageDir: "storage-dir",
+  storageFile: "storage-file",
+  modelsPath: "models-path",
+  logLevel: "log-level",
+  transport: "transport",
+  host: "host",
+  port: "port",
+  unknownModel: "unknown-model",
+  tokensFile: "tokens-file",
+  pluginsDir: "plugins-dir",
+  maxRevisions: "max-revisions",
+  maxAgeDays: "max-age-days",
+};
+
+const PATH_SETTINGS: Array<keyof ServerConfig> = [
+  "storageDir",
+  "storageFile",
+  "modelsPath",
+  "tokensFile",
+  "pluginsDir",
+];
+
+const configSchema = z
+  .object({
+    storageType: z.string().min(1),
+    storageDir: z.string().min(1),
+    storageFile: z.string().min(1),
+    modelsPath: z.string().min(1),
+    logLevel: z.enum(["debug", "info", "warn", "error"]),
+    transport: z.enum(["stdio", "http"]),
+    host: z.string().min(1),
+    port: z.coerce.number().int().min(0).max(65535),
+    unknownModel: z.enum(["strict", "lenient"]),
+    tokensFile: z.string().min(1),
+    pluginsDir: z.string().min(1),
+    maxRevisions: z.coerce.number().int().min(0),
+    maxAgeDays: z.coerce.number().positive(),
+  })
+  .partial()
+  .strict();
+
+export interface LoadConfigOptions {
+  /** Parsed CLI flags, e.g. `{ "storage-dir": "./data" }` */
+  flags?: Record<string, string>;
+  env?: NodeJS.ProcessEnv;
+  /** Base for relative paths from the environment and flags */
+  cwd?: string;
+}
+
+/**
+ * Split command-line arguments into positionals and `--name value` or
+ * `--name=value` flags
+ */
+export function parseArgs(argv: string[]): {
+  positionals: string[];
+  flags: Record<string, string>;
+} {
+  const positionals: string[] = [];
+  const flags: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const separator = arg.indexOf("=");
+    const name = separator === -1 ? arg.slice(2) : arg.slice(2, separator);
+    const inline = separator === -1 ? undefined : arg.slice(separator + 1);
+    const value = inline ?? argv[++i];
+    if (value === undefined || (inline === undefined && value.startsWith("--"))) {
+      throw new Error(`Missing value for --${name}`);
+    }
+    flags[name] = value;
+  }
+
+  return { positionals, flags };
+}
+
+/**
+ * Resolve the server configuration. Each layer overrides the one before:
+ * defaults, the config file (`--config`, `CONTEXT_PROCESSOR_CONFIG` or
+ * `context-processor.config.json` in the working directory), environment
+ * variables, then CLI flags. Relative paths in the config file resolve
+ * against the file's directory; all others against the working directory.
+ */
+export function loadConfig(options: LoadConfigOptions = {}): ResolvedConfig {
+  const cwd = options.cwd || process.cwd();
+  const env = options.env || process.env;
+  const flags = options.flags || {};
+
+  const known = new Set(["config", ...Object.values(CONFIG_FLAGS)]);
+  const unknown = Object.keys(flags).filter((flag) => !known.has(flag));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown option --${unknown[0]}`);
+  }
+
+  const config: ServerConfig = {
+    storageType: "file",
+    storageDir: path.resolve(cwd, "contexts"),
+    storageFile: path.resolve(cwd, "contexts.db"),
+    modelsPath: path.resolve(cwd, "context-models.json"),
+    logLevel: "info",
+    transport: "stdio",
+    host: "127.0.0.1",
+    port: 3000,
+    unknownModel: "lenient",
+    tokensFile: undefined,
+    pluginsDir: undefined,
+    maxRevisions: 50,
+    maxAgeDays: undefined,
+  };
+  const sources = Object.fromEntries(
+    Object.keys(config).map((key) => [key, "default"])
+  ) as Record<keyof ServerConfig, ConfigSource>;
+
+  const apply = (
+    source: ConfigSource,
+    description: string,
+    values: Record<string, unknown>,
+    baseDir: string,
+    /** Names settings in error messages, e.g. by their variable */
+    label: (key: string) => string = (key) => key
+  ) => {
+    const parsed = configSchema.safeParse(values);
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid configuration in ${description}: ${formatIssues(
+          parsed.error.issues.map((issue) => ({
+            ...issue,
+            path: issue.path.map((key) => label(String(key))),
+          }))
+        )}`
+      );
+    }
+    (Object.keys(parsed.data) as Array<keyof ServerConfig>).forEach((key) => {
+      const value = parsed.data[key]!;
+      (config as unknown as Record<string, unknown>)[key] = PATH_SETTINGS.includes(key)
+        ? path.resolve(baseDir, String(value))
+        : value;
+      sources[key] = source;
+    });
+  };
+
+  const explicitFile = flags.config || env.CONTEXT_PROCESSOR_CONFIG;
+  const configFile = path.resolve(cwd, explicitFile || DEFAULT_CONFIG_FILE);
+  const hasFile = fs.existsSync(configFile);
+  if (explicitFile && !hasFile) {
+    throw new Error(`Config file not found: ${configFile}`);
+  }
+  if (hasFile) {
+    let data: unknown;
+    try {
+      data = JSON.parse(fs.readFileSync(configFile, "utf-8"));
+    } catch (error) {
+      throw new Error(
+        `Cannot read ${configFile}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+    apply("file", configFile, data as Record<string, unknown>, path.dirname(configFile));
+  }
+
+  const fromEnv: Record<string, string> = {};
+  const fromFlags: Record<string, string> = {};
+  (Object.keys(CONFIG_ENV_VARS) as Array<keyof ServerConfig>).forEach((key) => {
+    if (env[CONFIG_ENV_VARS[key]]) {
+      fromEnv[key] = env[CONFIG_ENV_VARS[key]]!;
+    }
+    if (flags[CONFIG_FLAGS[key]] !== undefined) {
+      fromFlags[key] = flags[CONFIG_FLAGS[key]];
+    }
+  });
+  apply("env", "environment variables", fromEnv, cwd, (key) =>
+    CONFIG_ENV_VARS[key as keyof ServerConfig]
+  );
+  apply("cli", "command-line flags", fromFlags, cwd, (key) =>
+    `--${CONFIG_FLAGS[key as keyof ServerConfig]}`
+  );
+
+  return { config, sources, configFile: hasFile ? configFile : undefined };
+}
+
+/**
+ * One line per setting with its value and source, for startup logs
+ */
+export function describeConfig(resolved: ResolvedConfig): string[] {
+  const lines = (Object.keys(resolved.config) as Array<keyof ServerConfig>).map(
+    (key) => `  ${key}: ${resolved.config[key] ?? "none"} (${resolved.sources[key]})`
+  );
+  return [
+    `Configuration${resolved.configFile ? ` (config file: ${resolved.configFile})` : ""}:`,
+    ...lines,
+  ];
+}
@@ -0,0 +1,294 @@
+import * as http from "http";
+import { randomUUID } from "crypto";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { TokenStore } from "./auth.js";
+import { Logger } from "./logger.js";
+
+/** Path of the MCP endpoint */
+export const MCP_HTTP_PATH = "/mcp";
+
+/** Largest accepted request body */
+export const MAX_BODY_BYTES = 1024 * 1024;
+
+/** Sessions without requests or open streams for this long are closed */
+export const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+const LOOPBACK_HOSTS = ["127.0.0.1", "localhost", "::1"];
+
+export interface HttpServerOptions {
+  host: string;
+  /** 0 picks a free port */
+  port: number;
+  /** Creates the MCP server for a new session */
+  createSession: () => McpServer;
+  /** Called once a session has ended or failed to initialize */
+  onSessionClosed?: (server: McpServer) => void;
+  /** Defaults to MAX_BODY_BYTES */
+  maxBodyBytes?: number;
+  /** Defaults to SESSION_IDLE_TIMEOUT_MS */
+  sessionIdleTimeoutMs?: number;
+  /** When set, every request needs one of these bearer tokens */
+  tokens?: TokenStore;
+  logger: Logger;
+}
+
+export interface HttpServerHandle {
+  /** URL of the MCP endpoint, e.g. `http://127.0.0.1:3000/mcp` */
+  url: string;
+  sessionCount(): number;
+  /** Close every session and stop listening */
+  close(): Promise<void>;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  /** Name of the token that started the session */
+  clientId?: string;
+  /** Requests in progress, including open SSE streams */
+  active: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+function sendJsonRpcError(
+  res: http.ServerResponse,
+  status: number,
+  code: number,
+  message: string,
+  headers: http.OutgoingHttpHeaders = {}
+): void {
+  res.writeHead(status, { ...headers, "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+/**
+ * Read the request body as text, or undefined once it exceeds `limit`
+ * bytes. The rest of an oversized body is left unread.
+ */
+function readBody(
+  req: http.IncomingMessage,
+  limit: number
+): Promise<string | undefined> {
+  if (Number(req.headers["content-length"]) > limit) {
+    return Promise.resolve(undefined);
+  }
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= limit) {
+        chunks.push(chunk);
+        return;
+      }
+      req.off("data", onData).pause();
+      resolve(undefined);
+    };
+    req.on("data", onData);
+    req.once("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    req.once("error", reject);
+  });
+}
+
+/**
+ * Serve MCP over streamable HTTP (with SSE streams for server messages).
+ * Each client initializes its own session, identified by the
+ * `Mcp-Session-Id` header, and gets its own MCP server instance. On a
+ * loopback host, requests with any other Host header are rejected to
+ * guard against DNS rebinding. With `tokens`, requests need a valid
+ * bearer token, which tool handlers receive as `extra.authInfo`; a
+ * session can only be used with the token that started it. Sessions
+ * end when the client terminates them or after `sessionIdleTimeoutMs`
+ * without requests or open streams.
+ */
+export async function startHttpServer(
+  options: HttpServerOptions
+): Promise<HttpServerHandle> {
+  const { logger } = options;
+  const maxBodyBytes = options.maxBodyBytes ?? MAX_BODY_BYTES;
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? SESSION_IDLE_TIMEOUT_MS;
+  const sessions = new Map<string, Session>();
+  let allowedHosts: string[] | undefined;
+
+  const endSession = (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    clearTimeout(session.idleTimer);
+    sessions.delete(sessionId);
+    options.onSessionClosed?.(session.server);
+    logger.debug(`HTTP session closed: ${sessionId}`);
+  };
+
+  /** Hold off the idle timeout until the response is finished */
+  const trackRequest = (
+    sessionId: string,
+    session: Session,
+    res: http.ServerResponse
+  ) => {
+    session.active++;
+    clearTimeout(session.idleTimer);
+    res.once("close", () => {
+      session.active--;
+      if (session.active > 0 || sessions.get(sessionId) !== session) return;
+      session.idleTimer = setTimeout(() => {
+        logger.info(`HTTP session expired after ${idleTimeoutMs} ms idle: ${sessionId}`);
+        session.transport.close().catch((error) =>
+          logger.error(`Failed to close HTTP session ${sessionId}:`, error)
+        );
+      }, idleTimeoutMs);
+      session.idleTimer.unref();
+    });
+  };
+
+  const handle = async (
+    req: http.IncomingMessage & { auth?: AuthInfo },
+    res: http.ServerResponse
+  ) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    if (pathname !== MCP_HTTP_PATH) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    if (options.tokens) {
+      req.auth = options.tokens.authenticate(req.headers.authorization);
+      if (!req.auth) {
+        logger.warn("Rejected HTTP request without a valid bearer token");
+        sendJsonRpcError(
+          res,
+          401,
+          -32000,
+          "Unauthorized: missing or invalid bearer token",
+          { "WWW-Authenticate": 'Bearer realm="context-processor"' }
+        );
+        return;
+      }
+    }
+
+    let body: unknown;
+    if (req.method === "POST") {
+      const text = await readBody(req, maxBodyBytes);
+      if (text === undefined) {
+        sendJsonRpcError(
+          res,
+          413,
+          -32000,
+          `Payload too large: request bodies are limited to ${maxBodyBytes} bytes`,
+          { Connection: "close" }
+        );
+        return;
+      }
+      try {
+        body = JSON.parse(text);
+      } catch {
+        sendJsonRpcError(res, 400, -32700, "Parse error: invalid JSON");
+        return;
+      }
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, -32001, "Session not found");
+        return;
+      }
+      if (session.clientId !== req.auth?.clientId) {
+        sendJsonRpcError(
+          res,
+          403,
+          -32000,
+          "Forbidden: session belongs to another token"
+        );
+        return;
+      }
+      trackRequest(sessionId, session, res);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(
+        res,
+        400,
+        -32000,
+        "Bad Request: No valid session ID provided"
+      );
+      return;
+    }
+
+    const server = options.createSession();
+    const clientId = req.auth?.clientId;
+    let initialized = false;
+    const transport: StreamableHTTPServerTransport =
+      new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        enableDnsRebindingProtection: !!allowedHosts,
+        allowedHosts,
+        onsessioninitialized: (id) => {
+          const session: Session = { transport, server, clientId, active: 0 };
+          sessions.set(id, session);
+          trackRequest(id, session, res);
+          initialized = true;
+          logger.debug(
+            `HTTP session started: ${id}${clientId ? ` (token "${clientId}")` : ""}`
+          );
+        },
+        onsessionclosed: (id) => endSession(id),
+      });
+    transport.onclose = () => {
+      if (transport.sessionId) endSession(transport.sessionId);
+    };
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // A rejected initialize request leaves no session to clean up later
+      if (!initialized) {
+        options.onSessionClosed?.(server);
+        await server.close();
+      }
+    }
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      logger.error("HTTP request failed:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, "Internal server error");
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const { port } = httpServer.address() as { port: number };
+  if (LOOPBACK_HOSTS.includes(options.host)) {
+    allowedHosts = [`127.0.0.1:${port}`, `localhost:${port}`, `[::1]:${port}`];
+  }
+  const host = options.host.includes(":") ? `[${options.host}]` : options.host;
+
+  return {
+    url: `http://${host}:${port}${MCP_HTTP_PATH}`,
+    sessionCount: () => sessions.size,
+    async close() {
+      await Promise.all(
+        Array.from(sessions.values()).map((session) => session.transport.close())
+      );
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import { LogLevel } from "./types.js";
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+export interface Logger {
+  debug(message: string): void;
+  info(message: string): void;
+  warn(message: string): void;
+  error(message: string, error?: unknown): void;
+}
+
+/**
+ * Logger writing to stderr, since stdout carries the MCP protocol when
+ * running over stdio. Messages below `level` are dropped.
+ */
+export function createLogger(level: LogLevel = "info"): Logger {
+  const threshold = LEVELS.indexOf(level);
+  const write = (messageLevel: LogLevel, message: string, error?: unknown) => {
+    if (LEVELS.indexOf(messageLevel) < threshold) return;
+    if (error === undefined) {
+      console.error(message);
+    } else {
+      console.error(message, error);
+    }
+  };
+
+  return {
+    debug: (message) => write("debug", message),
+    info: (message) => write("info", message),
+    warn: (message) => write("warn", message),
+    error: (message, error) => write("error", message, error),
+  };
+}
@@ -0,0 +1,539 @@
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import { Logger, createLogger } from "./logger.js";
+import { formatIssues, getStrategy } from "./strategies.js";
+import {
+  ContextModel,
+  ModelValidationError,
+  ModelValidationResult,
+  ResolvedModel,
+  ResolvedStrategy,
+  StrategyDefinition,
+} from "./types.js";
+
+/**
+ * Built-in models used when no context-models.json is present
+ */
+export const DEFAULT_MODELS: ContextModel[] = [
+  {
+    name: "clarify",
+    description: "Model focused on clarifying and improving content clarity",
+    strategies: [
+      {
+        name: "clarify",
+        type: "clarify",
+        enabled: true,
+      },
+    ],
+  },
+  {
+    name: "enhance_search",
+    description: "Model for enhancing searchability of content",
+    strategies: [
+      {
+        name: "extract_keywords",
+        type: "search",
+        enabled: true,
+      },
+    ],
+  },
+  {
+    name: "comprehensive",
+    description: "Comprehensive model with multiple processing strategies",
+    strategies: [
+      {
+        name: "clarify",
+        type: "clarify",
+        enabled: true,
+      },
+      {
+        name: "analyze",
+        type: "analyze",
+        enabled: true,
+      },
+      {
+        name: "search",
+        type: "search",
+        enabled: true,
+      },
+    ],
+  },
+];
+
+/**
+ * Raised in strict mode when a request names a model that does not exist
+ */
+export class UnknownModelError extends Error {
+  constructor(
+    public readonly modelName: string,
+    public readonly available: string[]
+  ) {
+    super(
+      `Unknown model "${modelName}". Available models: ${available.join(", ")}`
+    );
+    this.name = "UnknownModelError";
+  }
+}
+
+const strategySchema = z.object({
+  name: z.string().min(1),
+  type: z.string().min(1).optional(),
+  enabled: z.boolean(),
+  config: z.record(z.string(), z.unknown()).optional(),
+});
+
+const modelSchema = z.object({
+  name: z.string().min(1),
+  description: z.string(),
+  strategies: z.array(strategySchema),
+  storageLocation: z
+    .union([z.string().min(1), z.looseObject({ type: z.string().min(1) })])
+    .optional(),
+  extends: z.string().min(1).optional(),
+});
+
+const modelsFileSchema = z.object({
+  models: z.array(z.unknown()),
+});
+
+export interface ValidateModelsOptions {
+  /** Looks up strategy implementations (defaults to the global registry) */
+  resolveStrategy?: (name: string) => StrategyDefinition | undefined;
+  /**
+   * Accept strategies that are not registered yet, e.g. because plugins
+   * load later. Their config is then validated when they run.
+   */
+  allowUnknownStrategies?: boolean;
+  /** Looks up parent models that are not defined in the validated file */
+  resolveModel?: (name: string) => ContextModel | undefined;
+}
+
+function joinPath(base: string, keys: PropertyKey[]): string {
+  return keys.reduce<string>(
+    (acc, key) =>
+      typeof key === "number" ? `${acc}[${key}]` : `${acc}.${String(key)}`,
+    base
+  );
+}
+
+/**
+ * Apply a model's strategies on top of inherited ones: an entry with the
+ * name of an inherited strategy overrides its fields in place, any other
+ * entry is appended.
+ */
+function mergeStrategies(
+  inherited: ResolvedStrategy[],
+  model: ContextModel
+): ResolvedStrategy[] {
+  const merged = [...inherited];
+  model.strategies.forEach((strategy) => {
+    const index = merged.findIndex((s) => s.name === strategy.name);
+    if (index === -1) {
+      merged.push({ ...strategy, origin: model.name });
+    } else {
+      const { origin, overrides, ...parent } = merged[index];
+      merged[index] = {
+        ...parent,
+        ...strategy,
+        origin: model.name,
+        overrides: origin,
+      };
+    }
+  });
+  return merged;
+}
+
+/**
+ * Resolve a model's inheritance chain into its effective strategy list.
+ * A model without a storage location uses its nearest ancestor's.
+ * Throws when the model or one of its ancestors is unknown, or when the
+ * chain loops back on itself.
+ */
+export function resolveModel(
+  name: string,
+  lookup: (name: string) => ContextModel | undefined
+): ResolvedModel {
+  const chain: ContextModel[] = [];
+  let current = lookup(name);
+  if (!current) {
+    throw new Error(`Unknown model "${name}"`);
+  }
+
+  for (;;) {
+    const visited = chain.map((m) => m.name);
+    if (visited.includes(current.name)) {
+      throw new Error(
+        `Cycle in model inheritance: ${[...visited, current.name].join(" -> ")}`
+      );
+    }
+    chain.push(current);
+    if (!current.extends) break;
+
+    const parent = lookup(current.extends);
+    if (!parent) {
+      throw new Error(
+        `Model "${current.name}" extends unknown model "${current.extends}"`
+      );
+    }
+    current = parent;
+  }
+
+  const strategies = chain
+    .slice()
+    .reverse()
+    .reduce<ResolvedStrategy[]>(mergeStrategies, []);
+
+  const resolved: ResolvedModel = {
+    ...chain[0],
+    strategies,
+    inheritance: chain.map((m) => m.name),
+  };
+  const located = chain.find((m) => m.storageLocation);
+  if (located) {
+    resolved.storageLocation = located.storageLocation;
+  }
+  return resolved;
+}
+
+/**
+ * Validate the parsed contents of a models file. Each model is checked on
+ * its own, including its strategy configs, so one bad entry does not
+ * reject the others. Error paths point into the file, e.g.
+ * `models[1].strategies[0].config.maxKeywords`. A model whose parent is
+ * rejected is rejected as well.
+ */
+export function validateModels(
+  data: unknown,
+  options: ValidateModelsOptions = {}
+): ModelValidationResult {
+  const resolveStrategy = options.resolveStrategy || getStrategy;
+  const models: ContextModel[] = [];
+  const errors: ModelValidationError[] = [];
+
+  const file = modelsFileSchema.safeParse(data);
+  if (!file.success) {
+    errors.push({ path: "", message: formatIssues(file.error.issues) });
+    return { valid: false, models, errors };
+  }
+
+  const entries = file.data.models.map((entry, index) => {
+    const modelPath = `models[${index}]`;
+    const name =
+      entry && typeof (entry as ContextModel).name === "string"
+        ? (entry as ContextModel).name
+        : undefined;
+    const parsed = modelSchema.safeParse(entry);
+    const modelErrors: ModelValidationError[] = parsed.success
+      ? []
+      : parsed.error.issues.map((issue) => ({
+          model: name,
+          path: joinPath(modelPath, issue.path),
+          message: issue.message,
+        }));
+    return {
+      name,
+      modelPath,
+      model: parsed.success ? (parsed.data as ContextModel) : undefined,
+      errors: modelErrors,
+    };
+  });
+
+  // Parents are looked up in this file first, then outside it
+  const declared = new Map<string, ContextModel>();
+  entries.forEach((entry) => {
+    if (!entry.model) return;
+    if (declared.has(entry.model.name)) {
+      entry.errors.push({
+        model: entry.name,
+        path: `${entry.modelPath}.name`,
+        message: `Duplicate model name "${entry.model.name}"`,
+      });
+    } else {
+      declared.set(entry.model.name, entry.model);
+    }
+  });
+  const lookup = (name: string) =>
+    declared.get(name) || options.resolveModel?.(name);
+
+  entries.forEach(({ name, modelPath, model, errors: modelErrors }) => {
+    if (!model || modelErrors.length > 0) return;
+
+    let resolved: ResolvedModel;
+    try {
+      resolved = resolveModel(model.name, lookup);
+    } catch (error) {
+      modelErrors.push({
+        model: name,
+        path: `${modelPath}.extends`,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    model.strategies.forEach((own, strategyIndex) => {
+      // Overrides are checked with the fields they inherit
+      const strategy =
+        resolved.strategies.find((s) => s.name === own.name) || own;
+      const strategyPath = `${modelPath}.strategies[${strategyIndex}]`;
+      const strategyName = strategy.type || strategy.name;
+      const implementation = resolveStrategy(strategyName);
+
+      if (!implementation) {
+        if (!options.allowUnknownStrategies) {
+          modelErrors.push({
+            model: name,
+            path: `${strategyPath}.${strategy.type ? "type" : "name"}`,
+            message: `Unknown strategy "${strategyName}"`,
+          });
+        }
+        return;
+      }
+
+      const config = implementation.configSchema?.safeParse(
+        strategy.config || {}
+      );
+      if (config && !config.success) {
+        config.error.issues.forEach((issue) =>
+          modelErrors.push({
+            model: name,
+            path: joinPath(`${strategyPath}.config`, issue.path),
+            message: issue.message,
+          })
+        );
+      }
+    });
+  });
+
+  const byName = new Map(
+    entries
+      .filter((entry) => entry.model && declared.get(entry.model.name) === entry.model)
+      .map((entry) => [entry.model!.name, entry])
+  );
+  const isValid = (name: string): boolean => {
+    const entry = byName.get(name);
+    if (!entry) return true; // defined outside this file
+    if (entry.errors.length > 0) return false;
+    if (entry.model!.extends && !isValid(entry.model!.extends)) {
+      entry.errors.push({
+        model: entry.name,
+        path: `${entry.modelPath}.extends`,
+        message: `Model "${name}" extends invalid model "${entry.model!.extends}"`,
+      });
+      return false;
+    }
+    return true;
+  };
+
+  entries.forEach((entry) => {
+    if (entry.model && entry.errors.length === 0) {
+      isValid(entry.model.name);
+    }
+    if (entry.errors.length > 0) {
+      errors.push(...entry.errors);
+    } else {
+      models.push(entry.model!);
+    }
+  });
+
+  return { valid: errors.length === 0, models, errors };
+}
+
+/**
+ * Read and validate a models file. Invalid JSON is reported as a single
+ * error for the whole file.
+ */
+export function validateModelsFile(
+  configPath: string,
+  options: ValidateModelsOptions = {}
+): ModelValidationResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+  } catch (error) {
+    return {
+      valid: false,
+      models: [],
+      errors: [
+        {
+          path: "",
+          message: `Cannot read ${configPath}: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        },
+      ],
+    };
+  }
+  return validateModels(data, options);
+}
+
+/**
+ * Describe a validation error as `models[1] ("name").path: message`
+ */
+export function formatModelError(error: ModelValidationError): string {
+  const location = error.model
+    ? error.path.replace(/^(models\[\d+\])/, `$1 ("${error.model}")`)
+    : error.path;
+  return location ? `${location}: ${error.message}` : error.message;
+}
+
+/**
+ * Load context models from a config file, falling back to the defaults
+ * when the file does not exist or cannot be parsed. Invalid models are
+ * logged and skipped; valid ones still load.
+ */
+export function loadModels(
+  configPath: string,
+  options: ValidateModelsOptions = { allowUnknownStrategies: true },
+  logger: Logger = createLogger()
+): Map<string, ContextModel> {
+  const models = new Map<string, ContextModel>();
+
+  if (fs.existsSync(configPath)) {
+    const result = validateModelsFile(configPath, options);
+    result.errors.forEach((error) =>
+      logger.error(`Invalid context model: ${formatModelError(error)}`)
+    );
+
+    // Errors without a path concern the whole file
+    if (result.errors.every((e) => e.path)) {
+      result.models.forEach((model) => models.set(model.name, model));
+      return models;
+    }
+  }
+
+  DEFAULT_MODELS.forEach((model) => {
+    models.set(model.name, model);
+  });
+
+  return models;
+}
+
+/**
+ * The models in effect: those from the models file (or the defaults) plus
+ * user models created at runtime. Only user models can be changed or
+ * deleted; they are persisted to a separate file so the main models file
+ * is never rewritten.
+ */
+export class ModelStore {
+  private baseModels: Map<string, ContextModel>;
+  private userModels: Map<string, ContextModel> = new Map();
+  private userModelsPath?: string;
+
+  constructor(
+    baseModels: Map<string, ContextModel>,
+    userModelsPath?: string,
+    logger: Logger = createLogger()
+  ) {
+    this.baseModels = baseModels;
+    this.userModelsPath = userModelsPath;
+
+    if (userModelsPath && fs.existsSync(userModelsPath)) {
+      const result = validateModelsFile(userModelsPath, {
+        allowUnknownStrategies: true,
+        resolveModel: (name) => baseModels.get(name),
+      });
+      result.errors.forEach((error) =>
+        logger.error(`Invalid user model: ${formatModelError(error)}`)
+      );
+      result.models.forEach((model) => {
+        if (baseModels.has(model.name)) {
+          logger.warn(
+            `Ignoring user model "${model.name}": a model with that name is already defined`
+          );
+        } else {
+          this.userModels.set(model.name, model);
+        }
+      });
+    }
+  }
+
+  get(name: string): ContextModel | undefined {
+    return this.baseModels.get(name) || this.userModels.get(name);
+  }
+
+  /**
+   * The model with its inherited strategies applied, or undefined when no
+   * model has that name. Throws when its inheritance chain is broken.
+   */
+  resolve(name: string): ResolvedModel | undefined {
+    return this.get(name)
+      ? resolveModel(name, (model) => this.get(model))
+      : undefined;
+  }
+
+  list(): ContextModel[] {
+    return [
+      ...Array.from(this.baseModels.values()),
+      ...Array.from(this.userModels.values()).filter(
+        (model) => !this.baseModels.has(model.name)
+      ),
+    ];
+  }
+
+  /**
+   * Whether a model comes from the models file or the defaults
+   */
+  isProtected(name: string): boolean {
+    return this.baseModels.has(name);
+  }
+
+  /**
+   * Replace the models loaded from the models file, keeping user models
+   */
+  replaceBase(models: ContextModel[]): void {
+    this.baseModels = new Map(models.map((m) => [m.name, m]));
+  }
+
+  create(model: ContextModel): ContextModel {
+    if (this.get(model.name)) {
+      throw new Error(`Model "${model.name}" already exists`);
+    }
+    this.userModels.set(model.name, model);
+    this.persist();
+    return model;
+  }
+
+  update(model: ContextModel): ContextModel {
+    this.assertEditable(model.name);
+    this.userModels.set(model.name, model);
+    this.persist();
+    return model;
+  }
+
+  /**
+   * Delete a user model. Returns false when no model has that name.
+   */
+  delete(name: string): boolean {
+    if (!this.get(name)) {
+      return false;
+    }
+    this.assertEditable(name);
+    const child = Array.from(this.userModels.values()).find(
+      (model) => model.extends === name
+    );
+    if (child) {
+      throw new Error(`Model "${name}" is extended by "${child.name}"`);
+    }
+    this.userModels.delete(name);
+    this.persist();
+    return true;
+  }
+
+  assertEditable(name: string): void {
+    if (this.isProtected(name)) {
+      throw new Error(
+        `Model "${name}" is a built-in model and cannot be changed or deleted`
+      );
+    }
+  }
+
+  private persist(): void {
+    if (!this.userModelsPath) return;
+    fs.mkdirSync(path.dirname(this.userModelsPath), { recursive: true });
+    fs.writeFileSync(
+      this.userModelsPath,
+      JSON.stringify({ models: Array.from(this.userModels.values()) }, null, 2)
+    );
+  }
+}
@@ -0,0 +1,7 @@
+import { createRequire } from "module";
+
+/**
+ * `require` resolving from this package, for loading native modules only
+ * when a feature needs them
+ */
+export const nativeRequire = createRequire(import.meta.url);
@@ -0,0 +1,116 @@
+import { ContextItem, ContextSortField, SortOrder } from "./types.js";
+
+interface CursorState {
+  sortBy: ContextSortField;
+  order: SortOrder;
+  value: string | number;
+  id: string;
+}
+
+export function defaultOrder(sortBy: ContextSortField): SortOrder {
+  return sortBy === "relevance" ? "desc" : "asc";
+}
+
+function sortValue(
+  context: ContextItem,
+  sortBy: ContextSortField,
+  scores?: Map<string, number>
+): string | number {
+  switch (sortBy) {
+    case "title":
+      return context.title.toLowerCase();
+    case "updatedAt":
+      return context.updatedAt;
+    case "relevance":
+      return scores?.get(context.id) ?? 0;
+    default:
+      return context.createdAt;
+  }
+}
+
+function compareKeys(
+  a: { value: string | number; id: string },
+  b: { value: string | number; id: string },
+  order: SortOrder
+): number {
+  let diff =
+    typeof a.value === "number" && typeof b.value === "number"
+      ? a.value - b.value
+      : String(a.value).localeCompare(String(b.value));
+  if (diff === 0) {
+    diff = a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  }
+  return order === "desc" ? -diff : diff;
+}
+
+/**
+ * Sort contexts by a field, using the context id as a tie-breaker so the
+ * order is total and cursors stay stable
+ */
+export function sortContexts(
+  contexts: ContextItem[],
+  sortBy: ContextSortField,
+  order: SortOrder,
+  scores?: Map<string, number>
+): ContextItem[] {
+  return contexts
+    .map((context) => ({
+      context,
+      value: sortValue(context, sortBy, scores),
+      id: context.id,
+    }))
+    .sort((a, b) => compareKeys(a, b, order))
+    .map(({ context }) => context);
+}
+
+export function encodeCursor(
+  context: ContextItem,
+  sortBy: ContextSortField,
+  order: SortOrder,
+  scores?: Map<string, number>
+): string {
+  const state: CursorState = {
+    sortBy,
+    order,
+    value: sortValue(context, sortBy, scores),
+    id: context.id,
+  };
+  return Buffer.from(JSON.stringify(state)).toString("base64url");
+}
+
+/**
+ * Return the contexts that come strictly after the cursor position. Since
+ * cursors hold the last seen sort key rather than an offset, contexts added
+ * before that position do not shift later pages.
+ */
+export function applyCursor(
+  sorted: ContextItem[],
+  cursor: string,
+  sortBy: ContextSortField,
+  order: SortOrder,
+  scores?: Map<string, number>
+): ContextItem[] {
+  let state: CursorState;
+  try {
+    state = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+  if (!state || typeof state.id !== "string" || state.value === undefined) {
+    throw new Error("Invalid cursor");
+  }
+  if (state.sortBy !== sortBy || state.order !== order) {
+    throw new Error(
+      `Cursor was created for sortBy "${state.sortBy}" (${state.order}); pass the same sortBy and order`
+    );
+  }
+
+  return sorted.filter(
+    (context) =>
+      compareKeys(
+        { value: sortValue(context, sortBy, scores), id: context.id },
+        state,
+        order
+      ) > 0
+  );
+}
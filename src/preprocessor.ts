@@ -1,291 +1,158 @@
-import { PreProcessingStrategy, PreProcessingResult } from "./types.js";
+import { formatIssues, getStrategy } from "./strategies.js";
+import {
+  ContextAnnotation,
+  ContextItem,
+  ContextView,
+  PreProcessingStrategy,
+  PreProcessingResult,
+  StrategyDefinition,
+} from "./types.js";
 
 /**
- * Pre-processor for context enhancement through various strategies
+ * Render content with its annotations as a single text: one section per
+ * annotation followed by the original content
+ */
+export function renderAnnotations(
+  content: string,
+  annotations: ContextAnnotation[] = []
+): string {
+  if (annotations.length === 0) {
+    return content;
+  }
+  const sections = annotations.map((a) => `[${a.label}]\n${a.text}`);
+  return `${sections.join("\n")}\n[ORIGINAL CONTENT]\n${content}`;
+}
+
+/**
+ * Shape a stored context for the requested view
+ */
+export function renderContext(
+  context: ContextItem,
+  view: ContextView = "annotated"
+): ContextItem {
+  const { annotations, ...raw } = context;
+  switch (view) {
+    case "raw":
+      return raw;
+    case "rendered":
+      return { ...raw, content: renderAnnotations(raw.content, annotations) };
+    default:
+      return context;
+  }
+}
+
+/**
+ * Pre-processor for context enhancement through various strategies.
+ * Strategy implementations are looked up by name, first among those
+ * registered on this instance and then in the global registry.
  */
 export class ContextPreprocessor {
-  private strategies: Map<string, PreProcessingStrategy> = new Map();
+  private strategies: Map<string, StrategyDefinition> = new Map();
+  private baseDir: string;
+
+  /**
+   * @param baseDir Directory that relative paths in strategy config resolve
+   * against (usually the directory of context-models.json)
+   */
+  constructor(baseDir: string = process.cwd()) {
+    this.baseDir = baseDir;
+  }
 
-  registerStrategy(strategy: PreProcessingStrategy): void {
+  /**
+   * Register a strategy implementation for this pre-processor only
+   */
+  registerStrategy(strategy: StrategyDefinition): void {
     this.strategies.set(strategy.name, strategy);
   }
 
+  getStrategy(name: string): StrategyDefinition | undefined {
+    return this.strategies.get(name) || getStrategy(name);
+  }
+
   async processContent(
     content: string,
     strategies: PreProcessingStrategy[]
   ): Promise<{
     processed: string;
     results: PreProcessingResult[];
+    annotations: ContextAnnotation[];
   }> {
     const results: PreProcessingResult[] = [];
-    let processedContent = content;
+    const annotations: ContextAnnotation[] = [];
 
+    // Every strategy sees the original content; outputs are kept as
+    // annotations instead of being fed into the next strategy
     for (const strategy of strategies) {
       if (!strategy.enabled) continue;
 
-      try {
-        const result = await this.executeStrategy(
-          strategy,
-          processedContent
-        );
-        results.push(result);
+      const result = await this.executeStrategy(strategy, content);
+      results.push(result);
 
-        if (result.result) {
-          processedContent = result.result;
-        }
-      } catch (error) {
-        results.push({
-          strategy: strategy.name,
-          processed: false,
-          error: String(error),
-        });
+      if (result.annotation) {
+        annotations.push(result.annotation);
       }
     }
 
-    return { processed: processedContent, results };
+    return {
+      processed: renderAnnotations(content, annotations),
+      results,
+      annotations,
+    };
   }
 
   private async executeStrategy(
     strategy: PreProcessingStrategy,
     content: string
   ): Promise<PreProcessingResult> {
-    switch (strategy.type) {
-      case "clarify":
-        return this.clarifySemanticsStrategy(content, strategy.config);
-      case "search":
-        return this.enhanceWithSearchStrategy(content, strategy.config);
-      case "analyze":
-        return this.analyzeContentStrategy(content, strategy.config);
-      case "fetch":
-        return this.fetchAdditionalDataStrategy(content, strategy.config);
-      case "custom":
-        return this.customStrategy(content, strategy.config);
-      default:
-        return {
-          strategy: strategy.name,
-          processed: false,
-          error: "Unknown strategy type",
-        };
-    }
-  }
-
-  private clarifySemanticsStrategy(
-    content: string,
-    config?: Record<string, unknown>
-  ): PreProcessingResult {
-    try {
-      const clarityScan = this.analyzeClarity(content);
-
-      const clarifiedContent = this.improveClarity(content, clarityScan);
-
+    const name = strategy.type || strategy.name;
+    const implementation = this.getStrategy(name);
+    if (!implementation) {
       return {
-        strategy: "clarify",
-        processed: true,
-        result: `[CLARIFICATION METADATA]\nOriginal length: ${content.length} chars\nClarity score: ${clarityScan.score}/100\nIssues found: ${clarityScan.issues.length}\n[CLARIFIED CONTENT]\n${clarifiedContent}`,
-      };
-    } catch (error) {
-      return {
-        strategy: "clarify",
+        strategy: name,
         processed: false,
-        error: String(error),
+        error: `Unknown strategy "${name}"`,
       };
     }
-  }
-
-  private analyzeClarity(content: string): {
-    score: number;
-    issues: string[];
-  } {
-    const issues: string[] = [];
-    let score = 100;
 
-    // Check for ambiguous pronouns
-    const pronounMatches = content.match(/\b(it|this|that|they)\b/gi);
-    if (pronounMatches && pronounMatches.length > 5) {
-      issues.push("Multiple ambiguous pronouns detected");
-      score -= 10;
-    }
-
-    // Check for passive voice
-    const passiveMatches = content.match(/\b(is|are|was|were)\s+\w+ed\b/gi);
-    if (passiveMatches && passiveMatches.length > 3) {
-      issues.push("Heavy use of passive voice");
-      score -= 5;
-    }
-
-    // Check for vague language
-    const vagueWords =
-      content.match(/\b(basically|generally|usually|kind of|sort of)\b/gi) ||
-      [];
-    if (vagueWords.length > 0) {
-      issues.push(`Found ${vagueWords.length} vague word(s)`);
-      score -= vagueWords.length * 2;
-    }
-
-    return { score: Math.max(0, score), issues };
-  }
-
-  private improveClarity(
-    content: string,
-    _clarityScan: { score: number; issues: string[] }
-  ): string {
-    let improved = content;
-
-    // Suggest replacements for vague words
-    improved = improved.replace(/\bbasically\b/gi, "specifically");
-    improved = improved.replace(/\bkind of\b/gi, "");
-    improved = improved.replace(/\bsort of\b/gi, "");
-
-    return improved;
-  }
-
-  private enhanceWithSearchStrategy(
-    content: string,
-    config?: Record<string, unknown>
-  ): PreProcessingResult {
-    try {
-      const keywords = this.extractKeywords(content);
-      const searchQueries = keywords.slice(0, 3);
-
-      return {
-        strategy: "search",
-        processed: true,
-        result: `[SEARCH ENHANCEMENT]\nExtracted keywords: ${searchQueries.join(", ")}\nRecommended searches: ${searchQueries.map((k) => `"${k}"`).join(", ")}\n[ORIGINAL CONTENT]\n${content}`,
-      };
-    } catch (error) {
-      return {
-        strategy: "search",
-        processed: false,
-        error: String(error),
-      };
-    }
-  }
-
-  private extractKeywords(content: string): string[] {
-    const words = content
-      .toLowerCase()
-      .split(/\s+/)
-      .filter(
-        (word) =>
-          word.length > 4 && !this.isStopWord(word.replace(/[^a-z]/g, ""))
-      );
-
-    const frequency: Record<string, number> = {};
-    words.forEach((word) => {
-      frequency[word] = (frequency[word] || 0) + 1;
-    });
-
-    return Object.entries(frequency)
-      .sort(([, a], [, b]) => b - a)
-      .slice(0, 10)
-      .map(([word]) => word);
-  }
-
-  private isStopWord(word: string): boolean {
-    const stopWords = [
-      "the",
-      "and",
-      "that",
-      "with",
-      "from",
-      "have",
-      "this",
-      "been",
-      "more",
-      "which",
-    ];
-    return stopWords.includes(word);
-  }
-
-  private analyzeContentStrategy(
-    content: string,
-    config?: Record<string, unknown>
-  ): PreProcessingResult {
-    try {
-      const analysis = {
-        wordCount: content.split(/\s+/).length,
-        sentenceCount: content.split(/[.!?]+/).length,
-        paragraphCount: content.split(/\n\n+/).length,
-        averageWordLength: this.calculateAvgWordLength(content),
-        complexity: this.assessComplexity(content),
-      };
-
-      return {
-        strategy: "analyze",
-        processed: true,
-        result: `[CONTENT ANALYSIS]\n${JSON.stringify(analysis, null, 2)}\n[ORIGINAL CONTENT]\n${content}`,
-      };
-    } catch (error) {
-      return {
-        strategy: "analyze",
-        processed: false,
-        error: String(error),
-      };
-    }
-  }
-
-  private calculateAvgWordLength(content: string): number {
-    const words = content.split(/\s+/);
-    const totalLength = words.reduce((sum, word) => sum + word.length, 0);
-    return totalLength / words.length;
-  }
-
-  private assessComplexity(content: string): string {
-    const avgWordLength = this.calculateAvgWordLength(content);
-    if (avgWordLength > 6) return "high";
-    if (avgWordLength > 4) return "medium";
-    return "low";
-  }
-
-  private fetchAdditionalDataStrategy(
-    content: string,
-    config?: Record<string, unknown>
-  ): PreProcessingResult {
-    try {
-      const urls = this.extractUrls(content);
-
-      return {
-        strategy: "fetch",
-        processed: true,
-        result: `[FETCH METADATA]\nFound URLs: ${urls.length}\nURLs: ${urls.join(", ")}\n[ORIGINAL CONTENT]\n${content}`,
-      };
-    } catch (error) {
-      return {
-        strategy: "fetch",
-        processed: false,
-        error: String(error),
-      };
-    }
-  }
-
-  private extractUrls(content: string): string[] {
-    const urlRegex = /https?:\/\/[^\s]+/g;
-    return (content.match(urlRegex) || []).slice(0, 5);
-  }
-
-  private customStrategy(
-    content: string,
-    config?: Record<string, unknown>
-  ): PreProcessingResult {
-    try {
-      if (!config || !config.processor) {
+    let config: Record<string, unknown> = strategy.config || {};
+    if (implementation.configSchema) {
+      const parsed = implementation.configSchema.safeParse(config);
+      if (!parsed.success) {
         return {
-          strategy: "custom",
+          strategy: implementation.name,
           processed: false,
-          error: "No custom processor function provided",
+          error: `Invalid config for strategy "${strategy.name}": ${formatIssues(
+            parsed.error.issues
+          )}`,
         };
       }
+      config = parsed.data as Record<string, unknown>;
+    }
+
+    try {
+      const run = await implementation.run(content, config, {
+        baseDir: this.baseDir,
+      });
+      const { type, ...data } = run.output;
+      const annotation: ContextAnnotation = {
+        strategy: implementation.name,
+        label: run.label || strategy.name.toUpperCase(),
+        text: run.text ?? JSON.stringify(data, null, 2),
+        output: run.output,
+      };
 
       return {
-        strategy: "custom",
+        strategy: implementation.name,
         processed: true,
-        result: content,
+        result: renderAnnotations(content, [annotation]),
+        output: run.output,
+        annotation,
       };
     } catch (error) {
       return {
-        strategy: "custom",
+        strategy: implementation.name,
         processed: false,
-        error: String(error),
+        error: error instanceof Error ? error.message : String(error),
       };
     }
   }
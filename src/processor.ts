@@ -0,0 +1,914 @@
+import * as fs from "fs";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import {
+  MultiLocationStorage,
+  assertValidContextId,
+  createStorage,
+} from "./storage.js";
+import { ContextPreprocessor, renderContext } from "./preprocessor.js";
+import {
+  ModelStore,
+  UnknownModelError,
+  ValidateModelsOptions,
+  loadModels,
+  validateModels,
+  validateModelsFile,
+} from "./models.js";
+import {
+  isWithinDirectory,
+  loadStrategyPlugins,
+  resolveCustomProcessor,
+} from "./strategies.js";
+import { Logger, createLogger } from "./logger.js";
+import { SearchIndex, highlightSnippet, tokenize } from "./search-index.js";
+import { compileQuery } from "./query.js";
+import { RevisionHistory, summarizeChanges } from "./revisions.js";
+import {
+  applyCursor,
+  defaultOrder,
+  encodeCursor,
+  sortContexts,
+} from "./pagination.js";
+import {
+  ContextAnnotation,
+  ContextChange,
+  ContextItem,
+  ContextModel,
+  ContextRevision,
+  ContextView,
+  ListContextsRequest,
+  ListContextsResponse,
+  ModelReloadResult,
+  ModelSummary,
+  ModelValidationResult,
+  ResolvedModel,
+  RestoreRevisionRequest,
+  RevisionRetention,
+  SaveContextInput,
+  SavedContext,
+  SearchContextsRequest,
+  SearchResult,
+  StorageAdapter,
+  StorageConfig,
+  StrategyDefinition,
+  StrategyFailure,
+  StrategyResult,
+  UnknownModelMode,
+  UpdateContextRequest,
+  UpdateModelRequest,
+} from "./types.js";
+
+export interface ContextProcessorOptions {
+  /** Storage adapter instance or backend configuration (defaults to file storage) */
+  storage?: StorageAdapter | StorageConfig;
+  /** Directory for the default file backend */
+  storageDir?: string;
+  modelsPath?: string;
+  /** Where to persist the full-text index (defaults to `<storageDir>/.index/search.idx` for file storage) */
+  searchIndexPath?: string;
+  /** Revision retention and location (defaults to `<storageDir>/.revisions` for file storage, last 50 revisions) */
+  revisions?: RevisionRetention & { directory?: string };
+  /** Directory of strategy plugin modules to import; none are imported without it */
+  pluginsDir?: string;
+  /** Where models created at runtime are persisted (defaults to `user-models.json` next to the models file) */
+  userModelsPath?: string;
+  /** Files no model storage location may hold, such as the tokens file; the models files are always protected */
+  protectedFiles?: string[];
+  /** How to treat an unknown `modelName` on save and update (defaults to `lenient`) */
+  unknownModel?: UnknownModelMode;
+  /** Where warnings and errors go (defaults to stderr at the `info` level) */
+  logger?: Logger;
+}
+
+/**
+ * Library entry point wrapping storage, pre-processing and context models.
+ * Can be embedded directly without running the MCP server.
+ */
+export class ContextProcessor {
+  private storage: MultiLocationStorage;
+  private preprocessor: ContextPreprocessor;
+  private models: ModelStore;
+  private searchIndex: SearchIndex;
+  private revisions: RevisionHistory;
+  private pluginsLoaded: Promise<void>;
+  private modelsPath: string;
+  private protectedFiles: string[];
+  private unknownModel: UnknownModelMode;
+  private logger: Logger;
+  private changeListeners: Set<(change: ContextChange) => void> = new Set();
+  /** Latest `createdAt` in storage, so saves within a millisecond keep their order */
+  private lastCreatedAt: number;
+
+  constructor(options: ContextProcessorOptions = {}) {
+    const modelsPath =
+      options.modelsPath || path.join(process.cwd(), "context-models.json");
+    this.modelsPath = modelsPath;
+    this.unknownModel = options.unknownModel || "lenient";
+    this.logger = options.logger || createLogger();
+    this.preprocessor = new ContextPreprocessor(path.dirname(modelsPath));
+    const userModelsPath =
+      options.userModelsPath || path.join(path.dirname(modelsPath), "user-models.json");
+    this.protectedFiles = [modelsPath, userModelsPath, ...(options.protectedFiles || [])].map(
+      (file) => path.resolve(file)
+    );
+    this.models = new ModelStore(
+      loadModels(modelsPath, undefined, this.logger),
+      userModelsPath,
+      this.logger
+    );
+    // Model storage locations must be known before the index is rebuilt
+    this.storage = new MultiLocationStorage(this.resolveStorage(options));
+    this.addStorageLocations();
+    this.searchIndex = new SearchIndex(this.resolveSearchIndexPath(options), this.logger);
+    // Rebuild when contexts were changed without updating the index
+    const contexts = this.storage.list();
+    this.lastCreatedAt = contexts.reduce((latest, c) => Math.max(latest, c.createdAt), 0);
+    if (!this.searchIndex.load() || !this.searchIndex.isCurrent(contexts)) {
+      this.searchIndex.rebuild(contexts);
+    }
+    this.revisions = new RevisionHistory(
+      this.resolveRevisionsDirectory(options),
+      { maxRevisions: 50, ...options.revisions }
+    );
+    this.pluginsLoaded = options.pluginsDir
+      ? loadStrategyPlugins(options.pluginsDir, this.logger)
+          .then((strategies) =>
+            strategies.forEach((s) => this.preprocessor.registerStrategy(s))
+          )
+          .catch((error) => this.logger.error("Failed to register strategy plugins:", error))
+      : Promise.resolve();
+  }
+
+  /**
+   * Save a context, optionally pre-processing it with a model. The content
+   * is stored as given; strategy output is kept as annotations. An unknown
+   * model throws UnknownModelError in strict mode and adds a warning
+   * otherwise. Contexts saved with a model go to its storage location.
+   * Passing an existing `id` overwrites that context and keeps its `createdAt`;
+   * custom IDs must pass isValidContextId.
+   */
+  async save(
+    request: SaveContextInput,
+    modelName: string | undefined = request.modelName
+  ): Promise<SavedContext> {
+    if (request.id !== undefined) assertValidContextId(request.id);
+    // Always advance, even within the same millisecond
+    const now = Math.max(Date.now(), this.lastCreatedAt + 1);
+    this.lastCreatedAt = now;
+    const existing = request.id ? this.storage.load(request.id) : null;
+
+    const { annotations, model, ...outcome } = await this.preprocess(
+      request.content,
+      modelName
+    );
+
+    const context: ContextItem = {
+      id: request.id || randomUUID(),
+      title: request.title,
+      content: request.content,
+      metadata: request.metadata || {},
+      createdAt: existing ? existing.createdAt : now,
+      updatedAt: now,
+      tags: request.tags || [],
+    };
+    if (annotations.length > 0) {
+      context.annotations = annotations;
+    }
+
+    this.commit(context, existing, request, model);
+
+    return {
+      ...context,
+      processedContent:
+        outcome.appliedStrategies.length > 0
+          ? renderContext(context, "rendered").content
+          : undefined,
+      ...outcome,
+    };
+  }
+
+  /**
+   * Patch an existing context in place, keeping its `id` and `createdAt`.
+   * Annotations are replaced when a model is given and dropped when the
+   * content changes without one. Unknown models are handled as in `save`,
+   * and a model moves the context to its storage location.
+   * Returns null when the context does not exist.
+   */
+  async update(request: UpdateContextRequest): Promise<SavedContext | null> {
+    const existing = this.storage.load(request.contextId);
+    if (!existing) {
+      return null;
+    }
+
+    const content = request.content ?? existing.content;
+    const { annotations, model, ...outcome } = await this.preprocess(
+      content,
+      request.modelName
+    );
+
+    let tags = request.tags ?? existing.tags;
+    if (request.addTags) {
+      tags = [...tags, ...request.addTags.filter((t) => !tags.includes(t))];
+    }
+    if (request.removeTags) {
+      tags = tags.filter((t) => !request.removeTags!.includes(t));
+    }
+
+    const metadata = { ...existing.metadata };
+    Object.entries(request.metadata || {}).forEach(([key, value]) => {
+      if (value === null) {
+        delete metadata[key];
+      } else {
+        metadata[key] = value;
+      }
+    });
+
+    const { annotations: previousAnnotations, ...rest } = existing;
+    const context: ContextItem = {
+      ...rest,
+      title: request.title ?? existing.title,
+      content,
+      metadata,
+      tags,
+      // Always advance updatedAt, even within the same millisecond
+      updatedAt: Math.max(Date.now(), existing.updatedAt + 1),
+    };
+    // An unknown model in lenient mode counts as no model
+    if (request.modelName && !outcome.warnings) {
+      if (annotations.length > 0) {
+        context.annotations = annotations;
+      }
+    } else if (previousAnnotations && content === existing.content) {
+      context.annotations = previousAnnotations;
+    }
+
+    this.commit(context, existing, request, model);
+
+    return {
+      ...context,
+      processedContent:
+        outcome.appliedStrategies.length > 0
+          ? renderContext(context, "rendered").content
+          : undefined,
+      ...outcome,
+    };
+  }
+
+  /**
+   * Load a context in the given view (annotated by default)
+   */
+  load(contextId: string, view?: ContextView): ContextItem | null {
+    const context = this.storage.load(contextId);
+    return context ? renderContext(context, view) : null;
+  }
+
+  list(request: ListContextsRequest = {}): ContextItem[] {
+    return this.listPage(request).contexts;
+  }
+
+  /**
+   * List contexts filtered by tags (any match), a query expression (see
+   * query.ts) and free text, sorted and paginated by offset or cursor.
+   * `total` counts every match before pagination.
+   * Throws QueryParseError for malformed queries.
+   */
+  listPage(request: ListContextsRequest = {}): ListContextsResponse {
+    const sortBy = request.sortBy || (request.text ? "relevance" : "createdAt");
+    const order = request.order || defaultOrder(sortBy);
+    const offset = request.offset || 0;
+
+    if (sortBy === "relevance" && !request.text) {
+      throw new Error('sortBy "relevance" requires a text query');
+    }
+
+    // Storage returns contexts in creation order, so the default listing
+    // can be paginated by the backend itself
+    if (
+      !request.query &&
+      !request.text &&
+      !request.cursor &&
+      sortBy === "createdAt" &&
+      order === "asc"
+    ) {
+      const contexts = this.storage.search(request.tags, request.limit, offset);
+      const total = this.storage.count(request.tags);
+      const hasMore = !!request.limit && offset + contexts.length < total;
+      return {
+        contexts,
+        total,
+        nextCursor: hasMore
+          ? encodeCursor(contexts[contexts.length - 1], sortBy, order)
+          : undefined,
+      };
+    }
+
+    let contexts = this.storage.search(request.tags);
+    let scores: Map<string, number> | undefined;
+
+    if (request.text) {
+      scores = new Map(
+        this.searchIndex.search(request.text).map((r) => [r.id, r.score])
+      );
+      contexts = contexts.filter((c) => scores!.has(c.id));
+    }
+    if (request.query) {
+      contexts = contexts.filter(compileQuery(request.query));
+    }
+
+    const total = contexts.length;
+    let sorted = sortContexts(contexts, sortBy, order, scores);
+    if (request.cursor) {
+      sorted = applyCursor(sorted, request.cursor, sortBy, order, scores);
+    }
+
+    const page = request.limit
+      ? sorted.slice(offset, offset + request.limit)
+      : sorted.slice(offset);
+    const hasMore = !!request.limit && offset + page.length < sorted.length;
+
+    return {
+      contexts: page,
+      total,
+      nextCursor: hasMore
+        ? encodeCursor(page[page.length - 1], sortBy, order, scores)
+        : undefined,
+    };
+  }
+
+  search(request: ListContextsRequest = {}): ContextItem[] {
+    return this.list(request);
+  }
+
+  /**
+   * Find other contexts sharing at least one tag with the given context
+   */
+  related(context: ContextItem, limit: number = 5): ContextItem[] {
+    if (context.tags.length === 0) return [];
+    return this.storage
+      .search(context.tags, limit + 1)
+      .filter((c) => c.id !== context.id)
+      .slice(0, limit);
+  }
+
+  /**
+   * Every tag used by a stored context, sorted
+   */
+  listTags(): string[] {
+    const tags = new Set<string>();
+    this.storage.list().forEach((context) => context.tags.forEach((tag) => tags.add(tag)));
+    return Array.from(tags).sort();
+  }
+
+  delete(contextId: string): boolean {
+    const existing = this.storage.load(contextId);
+    const deleted = this.storage.delete(contextId);
+    if (deleted) {
+      this.searchIndex.remove(contextId);
+      this.revisions.remove(contextId);
+      if (existing) {
+        this.emitChange({ type: "deleted", context: existing });
+      }
+    }
+    return deleted;
+  }
+
+  /**
+   * Call `listener` after every save, update, restore and delete.
+   * Returns a function that removes the listener.
+   */
+  onChange(listener: (change: ContextChange) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Retained revisions of a context, oldest first
+   */
+  listRevisions(contextId: string): ContextRevision[] {
+    return this.revisions.list(contextId);
+  }
+
+  getRevision(contextId: string, revision: number): ContextRevision | null {
+    return this.revisions.get(contextId, revision);
+  }
+
+  /**
+   * Restore a context to the state captured in a revision. The restore is
+   * recorded as a new revision, so it can itself be undone. Returns null
+   * when the context or revision does not exist.
+   */
+  restoreRevision(request: RestoreRevisionRequest): ContextItem | null {
+    const current = this.storage.load(request.contextId);
+    const revision = this.revisions.get(request.contextId, request.revision);
+    if (!current || !revision) {
+      return null;
+    }
+
+    const context: ContextItem = {
+      ...revision.snapshot,
+      id: current.id,
+      createdAt: current.createdAt,
+      updatedAt: Math.max(Date.now(), current.updatedAt + 1),
+    };
+
+    this.commit(context, current, {
+      author: request.author,
+      source: "restore",
+      summary: `restored revision ${revision.revision} (${summarizeChanges(
+        current,
+        context
+      )})`,
+    });
+    return context;
+  }
+
+  /**
+   * Rank contexts by title and content relevance (BM25)
+   */
+  fullTextSearch(request: SearchContextsRequest): SearchResult[] {
+    const terms = tokenize(request.query);
+    const results: SearchResult[] = [];
+
+    for (const { id, score } of this.searchIndex.search(request.query)) {
+      const context = this.storage.load(id);
+      if (!context) continue;
+      if (
+        request.tags &&
+        request.tags.length > 0 &&
+        !request.tags.some((tag) => context.tags.includes(tag))
+      ) {
+        continue;
+      }
+
+      results.push({
+        contextId: context.id,
+        title: context.title,
+        tags: context.tags,
+        score: Math.round(score * 1000) / 1000,
+        snippet: highlightSnippet(context.content, terms),
+      });
+      if (request.limit && results.length >= request.limit) break;
+    }
+
+    return results;
+  }
+
+  count(): number {
+    return this.storage.count();
+  }
+
+  getModel(modelName: string): ContextModel | undefined {
+    return this.models.get(modelName);
+  }
+
+  /**
+   * A model with its inherited strategies applied, each tagged with the
+   * model it came from. Throws when the inheritance chain is broken.
+   */
+  resolveModel(modelName: string): ResolvedModel | undefined {
+    return this.models.resolve(modelName);
+  }
+
+  getModels(): ContextModel[] {
+    return this.models.list();
+  }
+
+  listModels(): ModelSummary[] {
+    return this.getModels().map((m) => this.summarizeModel(m));
+  }
+
+  getModelInfo(modelName: string): ModelSummary | null {
+    const model = this.models.get(modelName);
+    return model ? this.summarizeModel(model) : null;
+  }
+
+  /**
+   * Check a models definition without loading it: the given JSON text, or
+   * the models file at `filePath` (defaults to this processor's models
+   * file). `filePath` must lie inside the models directory. Strategies are resolved after plugins have loaded, so unknown
+   * strategy names are reported as errors.
+   */
+  async validateModels(
+    source: { filePath?: string; content?: string } = {}
+  ): Promise<ModelValidationResult> {
+    await this.pluginsLoaded;
+    return this.validateSource(source, this.validationOptions());
+  }
+
+  /**
+   * Re-read the models file and swap in its models atomically. The current
+   * models are kept when the file is missing or has any error.
+   */
+  async reloadModels(): Promise<ModelReloadResult> {
+    const result = await this.validateModels();
+    if (result.valid) {
+      this.models.replaceBase(result.models);
+      this.addStorageLocations();
+    }
+    return {
+      reloaded: result.valid,
+      models: this.models.list().map((m) => m.name),
+      errors: result.errors,
+    };
+  }
+
+  /**
+   * Reload models whenever the models file changes. Returns a function
+   * that stops watching.
+   */
+  watchModels(
+    listener: (result: ModelReloadResult) => void,
+    interval: number = 1000
+  ): () => void {
+    const onChange = (current: fs.Stats, previous: fs.Stats) => {
+      if (current.mtimeMs === previous.mtimeMs) return;
+      this.reloadModels().then(listener, (error) =>
+        this.logger.error("Failed to reload context models:", error)
+      );
+    };
+    fs.watchFile(this.modelsPath, { interval }, onChange);
+    return () => fs.unwatchFile(this.modelsPath, onChange);
+  }
+
+  /**
+   * Define a new model. It is validated against the registered strategies
+   * and persisted to the user models file.
+   */
+  async createModel(model: ContextModel): Promise<ContextModel> {
+    if (this.models.get(model.name)) {
+      throw new Error(`Model "${model.name}" already exists`);
+    }
+    await this.assertValidModel(model);
+    this.models.create(model);
+    this.addStorageLocations();
+    return model;
+  }
+
+  /**
+   * Change a user model's description, strategies, storage location or
+   * parent.
+   * Returns null when the model does not exist; built-in models cannot be
+   * changed.
+   */
+  async updateModel(request: UpdateModelRequest): Promise<ContextModel | null> {
+    const existing = this.models.get(request.name);
+    if (!existing) {
+      return null;
+    }
+    this.models.assertEditable(request.name);
+
+    const model: ContextModel = {
+      ...existing,
+      description: request.description ?? existing.description,
+      strategies: request.strategies ?? existing.strategies,
+      storageLocation: request.storageLocation ?? existing.storageLocation,
+      extends: request.extends ?? existing.extends,
+    };
+    if (model.storageLocation === undefined) {
+      delete model.storageLocation;
+    }
+    if (model.extends === undefined) {
+      delete model.extends;
+    }
+    await this.assertValidModel(model);
+    this.models.update(model);
+    this.addStorageLocations();
+    return model;
+  }
+
+  /**
+   * Delete a user model. Returns false when the model does not exist;
+   * built-in models and models other models extend cannot be deleted.
+   */
+  deleteModel(name: string): boolean {
+    return this.models.delete(name);
+  }
+
+  /**
+   * Register a strategy implementation that this processor's models can
+   * reference by name
+   */
+  registerStrategy(strategy: StrategyDefinition): void {
+    this.preprocessor.registerStrategy(strategy);
+  }
+
+  /**
+   * Persist a new state of a context and keep the search index and
+   * revision history in step. With a model, the context is stored in the
+   * model's location; otherwise it stays where it is.
+   */
+  private commit(
+    context: ContextItem,
+    previous: ContextItem | null,
+    info: { author?: string; source?: string; summary?: string },
+    model?: ContextModel
+  ): void {
+    if (model) {
+      this.storage.saveTo(context, this.storageLocationKey(model));
+    } else {
+      this.storage.save(context);
+    }
+    this.searchIndex.add(context);
+    this.revisions.record(context, previous, info);
+    this.emitChange(
+      previous
+        ? { type: "updated", context, previous }
+        : { type: "created", context }
+    );
+  }
+
+  private emitChange(change: ContextChange): void {
+    this.changeListeners.forEach((listener) => {
+      try {
+        listener(change);
+      } catch (error) {
+        this.logger.error("Context change listener failed:", error);
+      }
+    });
+  }
+
+  /**
+   * Run the enabled strategies of a model over content
+   */
+  private async preprocess(
+    content: string,
+    modelName?: string
+  ): Promise<{
+    annotations: ContextAnnotation[];
+    appliedStrategies: string[];
+    strategyResults: StrategyResult[];
+    failedStrategies: StrategyFailure[];
+    warnings?: string[];
+    model?: ResolvedModel;
+  }> {
+    const annotations: ContextAnnotation[] = [];
+    const appliedStrategies: string[] = [];
+    const strategyResults: StrategyResult[] = [];
+    const failedStrategies: StrategyFailure[] = [];
+
+    if (!modelName) {
+      return { annotations, appliedStrategies, strategyResults, failedStrategies };
+    }
+
+    await this.pluginsLoaded;
+    const model = this.models.resolve(modelName);
+    if (!model) {
+      const available = this.models.list().map((m) => m.name);
+      if (this.unknownModel === "strict") {
+        throw new UnknownModelError(modelName, available);
+      }
+      return {
+        annotations,
+        appliedStrategies,
+        strategyResults,
+        failedStrategies,
+        warnings: [
+          `Unknown model "${modelName}"; saved without pre-processing. Available models: ${available.join(", ")}`,
+        ],
+      };
+    }
+
+    const enabledStrategies = model.strategies.filter((s) => s.enabled);
+    if (enabledStrategies.length > 0) {
+      const { results, annotations: derived } =
+        await this.preprocessor.processContent(content, enabledStrategies);
+      annotations.push(...derived);
+      results.forEach((r) => {
+        if (r.output) {
+          strategyResults.push({ strategy: r.strategy, output: r.output });
+        }
+        if (r.error) {
+          failedStrategies.push({ strategy: r.strategy, error: r.error });
+        }
+      });
+      appliedStrategies.push(
+        ...results.filter((r) => r.processed).map((r) => r.strategy)
+      );
+    }
+
+    return {
+      annotations,
+      appliedStrategies,
+      strategyResults,
+      failedStrategies,
+      model,
+    };
+  }
+
+  /**
+   * Make the storage locations of all models readable, so contexts saved
+   * through them can be loaded, listed and deleted
+   */
+  private addStorageLocations(): void {
+    this.models.list().forEach((model) => {
+      try {
+        this.storageLocationKey(this.models.resolve(model.name)!);
+      } catch (error) {
+        this.logger.error(
+          `Cannot use storage location of model "${model.name}":`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    });
+  }
+
+  /**
+   * The storage location key of a model, registering the location on
+   * first use. Undefined means the default storage.
+   */
+  private storageLocationKey(model: ContextModel): string | undefined {
+    if (!model.storageLocation) {
+      return undefined;
+    }
+
+    const config = this.resolveStorageLocation(model.storageLocation);
+    const key = JSON.stringify(config);
+    this.storage.addLocation(key, () => createStorage(config));
+    return key;
+  }
+
+  /**
+   * The backend configuration of a storage location with paths resolved
+   * against the models directory. Throws when the location would hold the
+   * models files or another protected file.
+   */
+  private resolveStorageLocation(location: string | StorageConfig): StorageConfig {
+    const baseDir = path.dirname(this.modelsPath);
+    const config: StorageConfig =
+      typeof location === "string"
+        ? { type: "file", directory: location }
+        : { ...location };
+    if (typeof config.directory === "string") {
+      config.directory = path.resolve(baseDir, config.directory);
+    }
+    if (typeof config.filename === "string" && config.filename !== ":memory:") {
+      config.filename = path.resolve(baseDir, config.filename);
+    }
+
+    const overlap = this.protectedFiles.find(
+      (file) => file === config.filename || path.dirname(file) === config.directory
+    );
+    if (overlap) {
+      throw new Error(
+        `Storage location ${config.directory || config.filename} would hold ${overlap}`
+      );
+    }
+    return config;
+  }
+
+  private resolveStorage(options: ContextProcessorOptions): StorageAdapter {
+    const { storage } = options;
+    if (storage && typeof (storage as StorageAdapter).save === "function") {
+      return storage as StorageAdapter;
+    }
+    return createStorage(
+      (storage as StorageConfig | undefined) || {
+        type: "file",
+        directory: options.storageDir || "./contexts",
+      }
+    );
+  }
+
+  private resolveSearchIndexPath(
+    options: ContextProcessorOptions
+  ): string | undefined {
+    if (options.searchIndexPath) {
+      return options.searchIndexPath;
+    }
+    if (!options.storage) {
+      return path.join(options.storageDir || "./contexts", ".index", "search.idx");
+    }
+    return undefined;
+  }
+
+  private resolveRevisionsDirectory(
+    options: ContextProcessorOptions
+  ): string | undefined {
+    if (options.revisions?.directory) {
+      return options.revisions.directory;
+    }
+    if (!options.storage) {
+      return path.join(options.storageDir || "./contexts", ".revisions");
+    }
+    return undefined;
+  }
+
+  private summarizeModel(model: ContextModel): ModelSummary {
+    let strategies = model.strategies;
+    try {
+      strategies = this.models.resolve(model.name)!.strategies;
+    } catch {
+      // A broken inheritance chain is reported when the model is used
+    }
+
+    const summary: ModelSummary = {
+      name: model.name,
+      description: model.description,
+      strategies: strategies.map((s) => s.name),
+      builtIn: this.models.isProtected(model.name),
+    };
+    if (model.extends) {
+      summary.extends = model.extends;
+    }
+    return summary;
+  }
+
+  private validationOptions(): ValidateModelsOptions {
+    return {
+      resolveStrategy: (name: string) => this.preprocessor.getStrategy(name),
+    };
+  }
+
+  private validateSource(
+    source: { filePath?: string; content?: string },
+    options: ValidateModelsOptions
+  ): ModelValidationResult {
+    if (source.content !== undefined) {
+      let data: unknown;
+      try {
+        data = JSON.parse(source.content);
+      } catch (error) {
+        return {
+          valid: false,
+          models: [],
+          errors: [
+            {
+              path: "",
+              message: `Invalid JSON: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            },
+          ],
+        };
+      }
+      return validateModels(data, options);
+    }
+
+    if (!source.filePath) {
+      return validateModelsFile(this.modelsPath, options);
+    }
+    const baseDir = path.resolve(path.dirname(this.modelsPath));
+    const filePath = path.resolve(baseDir, source.filePath);
+    if (!isWithinDirectory(filePath, baseDir)) {
+      throw new Error(`Models file ${filePath} is outside the models directory ${baseDir}`);
+    }
+    return validateModelsFile(filePath, options);
+  }
+
+  /**
+   * Validate a model against the registered strategies. Its parent may be
+   * any model in effect.
+   */
+  private async assertValidModel(model: ContextModel): Promise<void> {
+    await this.pluginsLoaded;
+    const result = validateModels(
+      { models: [model] },
+      {
+        ...this.validationOptions(),
+        resolveModel: (name) => this.models.get(name),
+      }
+    );
+    const errors = result.errors.map(
+      (e) => `${e.path.replace(/^models\[0\]\.?/, "")}: ${e.message}`
+    );
+    model.strategies.forEach((strategy, index) => {
+      const processor = strategy.config?.processor;
+      if ((strategy.type || strategy.name) !== "custom" || typeof processor !== "string") {
+        return;
+      }
+      try {
+        resolveCustomProcessor(processor, path.dirname(this.modelsPath));
+      } catch (error) {
+        errors.push(
+          `strategies[${index}].config.processor: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    });
+    if (model.storageLocation) {
+      try {
+        // Unlike the models file, runtime models may only store inside the models directory
+        const baseDir = path.dirname(this.modelsPath);
+        const { directory, filename } = this.resolveStorageLocation(model.storageLocation);
+        [directory, filename === ":memory:" ? undefined : filename].forEach((target) => {
+          if (typeof target === "string" && !isWithinDirectory(target, baseDir)) {
+            throw new Error(
+              `Storage location ${target} is outside the models directory ${path.resolve(baseDir)}`
+            );
+          }
+        });
+      } catch (error) {
+        errors.push(
+          `storageLocation: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+    if (errors.length > 0) {
+      throw new Error(`Invalid model "${model.name}": ${errors.join("; ")}`);
+    }
+  }
+}
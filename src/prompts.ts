@@ -0,0 +1,93 @@
+import { GetPromptResult, PromptMessage } from "@modelcontextprotocol/sdk/types.js";
+import { contextResourceContents } from "./resources.js";
+import { ContextItem } from "./types.js";
+
+/** Contexts embedded by summarize-tagged-contexts when no limit is given */
+export const DEFAULT_PROMPT_CONTEXTS = 20;
+
+function instruction(text: string): PromptMessage {
+  return { role: "user", content: { type: "text", text } };
+}
+
+/** A context as an embedded `context://{id}` resource */
+function embed(context: ContextItem): PromptMessage {
+  return {
+    role: "user",
+    content: { type: "resource", resource: contextResourceContents(context) },
+  };
+}
+
+/**
+ * Summarize the most recently updated contexts with a tag; `total` is the
+ * number of tagged contexts, which may exceed those embedded
+ */
+export function summarizeTaggedContextsPrompt(
+  tag: string,
+  contexts: ContextItem[],
+  total: number
+): GetPromptResult {
+  const scope =
+    contexts.length < total
+      ? `the ${contexts.length} most recently updated of ${total} contexts`
+      : `all ${total} context(s)`;
+  return {
+    description: `Summary of contexts tagged "${tag}"`,
+    messages: [
+      instruction(
+        [
+          `Summarize ${scope} tagged "${tag}", which follow as resources.`,
+          "Start with a short overview, then list the key facts, decisions and open questions.",
+          "Point out where contexts contradict each other, and cite each point by its context title.",
+        ].join("\n")
+      ),
+      ...contexts.map(embed),
+    ],
+  };
+}
+
+/**
+ * Combine chosen contexts into a brief, optionally for a goal and audience
+ */
+export function buildBriefPrompt(
+  contexts: ContextItem[],
+  options: { goal?: string; audience?: string } = {}
+): GetPromptResult {
+  const lines = [
+    `Write a brief from the ${contexts.length} context(s) that follow as resources.`,
+  ];
+  if (options.goal) lines.push(`Goal of the brief: ${options.goal}`);
+  if (options.audience) lines.push(`Audience: ${options.audience}`);
+  lines.push(
+    "Structure it as background, current state, decisions, risks and next steps, leaving out sections the contexts say nothing about.",
+    "Only use information from the contexts, and say what is missing rather than guessing."
+  );
+  return {
+    description: `Brief from ${contexts.map((c) => `"${c.title}"`).join(", ")}`,
+    messages: [instruction(lines.join("\n")), ...contexts.map(embed)],
+  };
+}
+
+/**
+ * Review a context before others rely on it. Strategy annotations, such
+ * as clarify findings, are part of the embedded content.
+ */
+export function reviewContextQualityPrompt(context: ContextItem): GetPromptResult {
+  return {
+    description: `Quality review of "${context.title}"`,
+    messages: [
+      instruction(
+        [
+          `Review the context "${context.title}" (last updated ${new Date(
+            context.updatedAt
+          ).toISOString()}), which follows as a resource.`,
+          "Check that the title matches the content, and flag ambiguous references, undefined terms, missing owners or dates, and statements that may be outdated.",
+          `Judge whether the tags (${
+            context.tags.length > 0 ? context.tags.join(", ") : "none"
+          }) fit, and suggest better ones.`,
+          "Finish with a prioritized list of concrete edits.",
+        ].join("\n")
+      ),
+      embed(context),
+    ],
+  };
+}
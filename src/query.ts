@@ -0,0 +1,368 @@
+import { ContextItem } from "./types.js";
+
+/**
+ * Query expressions for filtering contexts, e.g.
+ *
+ *   tag:api AND tag:auth AND NOT tag:archived
+ *   metadata.category == tutorial OR metadata.category == guide
+ *   updatedAt >= now-7d AND title ~ "release notes"
+ *
+ * Operators: `:` and `==` (equals / has tag), `!=`, `~` (contains,
+ * case-insensitive), `>`, `>=`, `<`, `<=`. Terms are combined with AND, OR,
+ * NOT and parentheses; adjacent terms without an operator are ANDed.
+ * Dates accept `now`, `now-<n><m|h|d|w>`, ISO dates or epoch milliseconds.
+ */
+
+export type ContextPredicate = (context: ContextItem) => boolean;
+
+export class QueryParseError extends Error {
+  constructor(
+    message: string,
+    public readonly query: string,
+    public readonly position: number
+  ) {
+    super(`Invalid query at position ${position}: ${message}`);
+    this.name = "QueryParseError";
+  }
+}
+
+type Operator = ":" | "==" | "!=" | "~" | ">" | ">=" | "<" | "<=";
+
+interface Token {
+  kind: "word" | "string" | "op" | "lparen" | "rparen";
+  value: string;
+  position: number;
+}
+
+const OPERATORS: Operator[] = ["==", "!=", ">=", "<=", ":", "~", ">", "<"];
+const DATE_FIELDS = ["createdAt", "updatedAt"];
+const TEXT_FIELDS = ["title", "content", "id"];
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(" || char === ")") {
+      tokens.push({
+        kind: char === "(" ? "lparen" : "rparen",
+        value: char,
+        position: i,
+      });
+      i++;
+    } else if (char === '"') {
+      const start = i;
+      let value = "";
+      i++;
+      while (i < query.length && query[i] !== '"') {
+        if (query[i] === "\\" && i + 1 < query.length) i++;
+        value += query[i];
+        i++;
+      }
+      if (i >= query.length) {
+        throw new QueryParseError("unterminated string", query, start);
+      }
+      i++;
+      tokens.push({ kind: "string", value, position: start });
+    } else {
+      const op = OPERATORS.find((o) => query.startsWith(o, i));
+      if (op) {
+        tokens.push({ kind: "op", value: op, position: i });
+        i += op.length;
+        continue;
+      }
+      if (char === "=" || char === "!") {
+        throw new QueryParseError(`unexpected "${char}"`, query, i);
+      }
+      const start = i;
+      while (i < query.length && !/[\s()"=!<>:~]/.test(query[i])) {
+        i++;
+      }
+      tokens.push({ kind: "word", value: query.slice(start, i), position: start });
+    }
+  }
+
+  return tokens;
+}
+
+class QueryParser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(private query: string, private now: number) {
+    this.tokens = tokenize(query);
+  }
+
+  parse(): ContextPredicate {
+    if (this.tokens.length === 0) {
+      throw new QueryParseError("query is empty", this.query, 0);
+    }
+    const predicate = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw this.error(`unexpected "${extra.value}"`, extra);
+    }
+    return predicate;
+  }
+
+  private parseOr(): ContextPredicate {
+    const terms = [this.parseAnd()];
+    while (this.isKeyword(this.peek(), "OR")) {
+      this.index++;
+      terms.push(this.parseAnd());
+    }
+    return terms.length === 1 ? terms[0] : (ctx) => terms.some((t) => t(ctx));
+  }
+
+  private parseAnd(): ContextPredicate {
+    const terms = [this.parseUnary()];
+    for (;;) {
+      const next = this.peek();
+      if (!next || next.kind === "rparen" || this.isKeyword(next, "OR")) break;
+      if (this.isKeyword(next, "AND")) this.index++;
+      terms.push(this.parseUnary());
+    }
+    return terms.length === 1 ? terms[0] : (ctx) => terms.every((t) => t(ctx));
+  }
+
+  private parseUnary(): ContextPredicate {
+    const token = this.next("a condition");
+
+    if (this.isKeyword(token, "NOT")) {
+      const inner = this.parseUnary();
+      return (ctx) => !inner(ctx);
+    }
+
+    if (token.kind === "lparen") {
+      const inner = this.parseOr();
+      const close = this.next('")"');
+      if (close.kind !== "rparen") {
+        throw this.error(`expected ")" but found "${close.value}"`, close);
+      }
+      return inner;
+    }
+
+    if (token.kind !== "word" || this.isKeyword(token, "AND", "OR")) {
+      throw this.error(`expected a field name but found "${token.value}"`, token);
+    }
+
+    const op = this.next(`an operator after "${token.value}"`);
+    if (op.kind !== "op") {
+      throw this.error(
+        `expected an operator after "${token.value}" but found "${op.value}"`,
+        op
+      );
+    }
+
+    const value = this.next(`a value after "${op.value}"`);
+    if (value.kind !== "word" && value.kind !== "string") {
+      throw this.error(`expected a value but found "${value.value}"`, value);
+    }
+
+    return this.comparison(token, op.value as Operator, value);
+  }
+
+  private comparison(
+    field: Token,
+    op: Operator,
+    value: Token
+  ): ContextPredicate {
+    const name = field.value;
+
+    if (name === "tag" || name === "tags") {
+      const tag = value.value;
+      switch (op) {
+        case ":":
+        case "==":
+          return (ctx) => ctx.tags.includes(tag);
+        case "!=":
+          return (ctx) => !ctx.tags.includes(tag);
+        case "~":
+          return (ctx) =>
+            ctx.tags.some((t) => t.toLowerCase().includes(tag.toLowerCase()));
+        default:
+          throw this.error(`operator "${op}" is not supported for tags`, field);
+      }
+    }
+
+    if (DATE_FIELDS.includes(name)) {
+      const timestamp = this.parseDate(value);
+      const key = name as "createdAt" | "updatedAt";
+      return this.compareNumbers(op, (ctx) => ctx[key], timestamp, field);
+    }
+
+    if (TEXT_FIELDS.includes(name)) {
+      const key = name as "title" | "content" | "id";
+      return this.compareValues(op, (ctx) => ctx[key], value.value, field);
+    }
+
+    if (name.startsWith("metadata.") && name.length > "metadata.".length) {
+      const keys = name.slice("metadata.".length).split(".");
+      const read = (ctx: ContextItem) =>
+        keys.reduce<unknown>(
+          (obj, key) =>
+            obj && typeof obj === "object"
+              ? (obj as Record<string, unknown>)[key]
+              : undefined,
+          ctx.metadata
+        );
+      return this.compareValues(op, read, value.value, field);
+    }
+
+    throw this.error(
+      `unknown field "${name}" (expected tag, title, content, id, createdAt, updatedAt or metadata.<key>)`,
+      field
+    );
+  }
+
+  private compareValues(
+    op: Operator,
+    read: (ctx: ContextItem) => unknown,
+    expected: string,
+    field: Token
+  ): ContextPredicate {
+    const equals = (actual: unknown): boolean =>
+      Array.isArray(actual)
+        ? actual.some((item) => String(item) === expected)
+        : actual !== undefined && actual !== null && String(actual) === expected;
+
+    switch (op) {
+      case ":":
+      case "==":
+        return (ctx) => equals(read(ctx));
+      case "!=":
+        return (ctx) => !equals(read(ctx));
+      case "~":
+        return (ctx) => {
+          const actual = read(ctx);
+          return (
+            actual !== undefined &&
+            actual !== null &&
+            String(actual).toLowerCase().includes(expected.toLowerCase())
+          );
+        };
+      default: {
+        const numeric = Number(expected);
+        if (expected !== "" && !isNaN(numeric)) {
+          return this.compareNumbers(
+            op,
+            (ctx) => Number(read(ctx)),
+            numeric,
+            field
+          );
+        }
+        return (ctx) => {
+          const actual = read(ctx);
+          if (actual === undefined || actual === null) return false;
+          const text = String(actual);
+          return this.ordered(op, text < expected ? -1 : text > expected ? 1 : 0);
+        };
+      }
+    }
+  }
+
+  private compareNumbers(
+    op: Operator,
+    read: (ctx: ContextItem) => number,
+    expected: number,
+    field: Token
+  ): ContextPredicate {
+    if (op === "~") {
+      throw this.error(`operator "~" is not supported for "${field.value}"`, field);
+    }
+    return (ctx) => {
+      const actual = read(ctx);
+      if (isNaN(actual)) return false;
+      return this.ordered(op, actual - expected);
+    };
+  }
+
+  private ordered(op: Operator, diff: number): boolean {
+    switch (op) {
+      case ">":
+        return diff > 0;
+      case ">=":
+        return diff >= 0;
+      case "<":
+        return diff < 0;
+      case "<=":
+        return diff <= 0;
+      case "!=":
+        return diff !== 0;
+      default:
+        return diff === 0;
+    }
+  }
+
+  private parseDate(token: Token): number {
+    const value = token.value;
+
+    const relative = value.match(/^now(?:-(\d+)([mhdw]))?$/);
+    if (relative) {
+      return relative[1]
+        ? this.now - Number(relative[1]) * DURATION_UNITS[relative[2]]
+        : this.now;
+    }
+    if (/^\d+$/.test(value)) {
+      return Number(value);
+    }
+    const parsed = Date.parse(value);
+    if (isNaN(parsed)) {
+      throw this.error(
+        `invalid date "${value}" (use now, now-7d, an ISO date or epoch milliseconds)`,
+        token
+      );
+    }
+    return parsed;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(expected: string): Token {
+    const token = this.tokens[this.index];
+    if (!token) {
+      throw new QueryParseError(
+        `expected ${expected} but the query ended`,
+        this.query,
+        this.query.length
+      );
+    }
+    this.index++;
+    return token;
+  }
+
+  private isKeyword(token: Token | undefined, ...keywords: string[]): boolean {
+    return (
+      !!token &&
+      token.kind === "word" &&
+      keywords.includes(token.value.toUpperCase())
+    );
+  }
+
+  private error(message: string, token: Token): QueryParseError {
+    return new QueryParseError(message, this.query, token.position);
+  }
+}
+
+/**
+ * Compile a query expression into a context predicate.
+ * Throws QueryParseError when the query is malformed.
+ */
+export function compileQuery(
+  query: string,
+  now: number = Date.now()
+): ContextPredicate {
+  return new QueryParser(query, now).parse();
+}
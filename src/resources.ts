@@ -0,0 +1,56 @@
+import { Resource } from "@modelcontextprotocol/sdk/types.js";
+import { renderContext } from "./preprocessor.js";
+import { ContextItem } from "./types.js";
+
+/** URI template of a single context */
+export const CONTEXT_URI_TEMPLATE = "context://{id}";
+
+/** URI template of every context with a tag */
+export const TAG_URI_TEMPLATE = "context://tag/{tag}";
+
+/** Contexts per `resources/list` page */
+export const RESOURCE_PAGE_SIZE = 50;
+
+const MIME_TYPE = "text/markdown";
+
+export function contextUri(contextId: string): string {
+  return `context://${encodeURIComponent(contextId)}`;
+}
+
+export function tagUri(tag: string): string {
+  return `context://tag/${encodeURIComponent(tag)}`;
+}
+
+/**
+ * List entry for a context
+ */
+export function describeContextResource(context: ContextItem): Resource {
+  return {
+    uri: contextUri(context.id),
+    name: context.title,
+    mimeType: MIME_TYPE,
+    ...(context.tags.length > 0 && { description: `Tags: ${context.tags.join(", ")}` }),
+    annotations: { lastModified: new Date(context.updatedAt).toISOString() },
+  };
+}
+
+/**
+ * A context as markdown: the title, its tags and the content with
+ * annotations merged in (the rendered view)
+ */
+export function contextResourceContents(context: ContextItem): {
+  uri: string;
+  mimeType: string;
+  text: string;
+} {
+  const sections = [`# ${context.title}`];
+  if (context.tags.length > 0) {
+    sections.push(`Tags: ${context.tags.join(", ")}`);
+  }
+  sections.push(renderContext(context, "rendered").content);
+  return {
+    uri: contextUri(context.id),
+    mimeType: MIME_TYPE,
+    text: sections.join("\n\n"),
+  };
+}
@@ -0,0 +1,169 @@
+import * as fs from "fs";
+import * as path from "path";
+import { assertValidContextId } from "./storage.js";
+import { ContextItem, ContextRevision, RevisionRetention } from "./types.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Describe what changed between two versions of a context, e.g.
+ * `title changed; content +2/-1 lines; tags +reviewed -draft`
+ */
+export function summarizeChanges(
+  previous: ContextItem | null,
+  next: ContextItem
+): string {
+  if (!previous) {
+    return "created";
+  }
+
+  const changes: string[] = [];
+
+  if (previous.title !== next.title) {
+    changes.push("title changed");
+  }
+
+  if (previous.content !== next.content) {
+    const before = previous.content.split("\n");
+    const after = next.content.split("\n");
+    const remaining = [...before];
+    let added = 0;
+    after.forEach((line) => {
+      const index = remaining.indexOf(line);
+      if (index === -1) {
+        added++;
+      } else {
+        remaining.splice(index, 1);
+      }
+    });
+    changes.push(`content +${added}/-${remaining.length} lines`);
+  }
+
+  const addedTags = next.tags.filter((t) => !previous.tags.includes(t));
+  const removedTags = previous.tags.filter((t) => !next.tags.includes(t));
+  if (addedTags.length > 0 || removedTags.length > 0) {
+    changes.push(
+      `tags ${[
+        ...addedTags.map((t) => `+${t}`),
+        ...removedTags.map((t) => `-${t}`),
+      ].join(" ")}`
+    );
+  }
+
+  const keys = new Set([
+    ...Object.keys(previous.metadata),
+    ...Object.keys(next.metadata),
+  ]);
+  const changedKeys = Array.from(keys).filter(
+    (key) =>
+      JSON.stringify(previous.metadata[key]) !==
+      JSON.stringify(next.metadata[key])
+  );
+  if (changedKeys.length > 0) {
+    changes.push(`metadata ${changedKeys.join(", ")}`);
+  }
+
+  return changes.length > 0 ? changes.join("; ") : "no changes";
+}
+
+/**
+ * Revision history for contexts. Every saved state is recorded as a
+ * snapshot; retention keeps the last N revisions and/or revisions younger
+ * than N days, but never drops the latest one. When a directory is given,
+ * each context's history is persisted to `<directory>/<id>.json`.
+ */
+export class RevisionHistory {
+  private cache: Map<string, ContextRevision[]> = new Map();
+  private directory?: string;
+  private retention: RevisionRetention;
+
+  constructor(directory?: string, retention: RevisionRetention = {}) {
+    this.directory = directory;
+    this.retention = retention;
+  }
+
+  record(
+    context: ContextItem,
+    previous: ContextItem | null,
+    info: { author?: string; source?: string; summary?: string } = {}
+  ): ContextRevision {
+    const revisions = this.list(context.id);
+    const last = revisions[revisions.length - 1];
+
+    const revision: ContextRevision = {
+      revision: last ? last.revision + 1 : 1,
+      contextId: context.id,
+      timestamp: context.updatedAt,
+      author: info.author,
+      source: info.source,
+      summary: info.summary || summarizeChanges(previous, context),
+      snapshot: JSON.parse(JSON.stringify(context)),
+    };
+
+    this.write(context.id, this.prune([...revisions, revision]));
+    return revision;
+  }
+
+  /**
+   * All retained revisions of a context, oldest first
+   */
+  list(contextId: string): ContextRevision[] {
+    if (!this.cache.has(contextId)) {
+      this.cache.set(contextId, this.read(contextId));
+    }
+    return this.cache.get(contextId)!;
+  }
+
+  get(contextId: string, revision: number): ContextRevision | null {
+    return this.list(contextId).find((r) => r.revision === revision) || null;
+  }
+
+  remove(contextId: string): void {
+    this.cache.delete(contextId);
+    const file = this.filePath(contextId);
+    if (file && fs.existsSync(file)) {
+      fs.unlinkSync(file);
+    }
+  }
+
+  private prune(revisions: ContextRevision[]): ContextRevision[] {
+    const { maxRevisions, maxAgeDays } = this.retention;
+    const latest = revisions[revisions.length - 1];
+    let kept = revisions;
+
+    if (maxAgeDays !== undefined) {
+      const cutoff = Date.now() - maxAgeDays * DAY;
+      kept = kept.filter((r) => r === latest || r.timestamp >= cutoff);
+    }
+    // 0 turns the count limit off, e.g. to retain by age alone
+    if (maxRevisions) {
+      kept = kept.slice(-Math.max(1, maxRevisions));
+    }
+
+    return kept;
+  }
+
+  private filePath(contextId: string): string | undefined {
+    assertValidContextId(contextId);
+    return this.directory
+      ? path.join(this.directory, `${contextId}.json`)
+      : undefined;
+  }
+
+  private read(contextId: string): ContextRevision[] {
+    const file = this.filePath(contextId);
+    if (!file || !fs.existsSync(file)) {
+      return [];
+    }
+    return JSON.parse(fs.readFileSync(file, "utf-8")) as ContextRevision[];
+  }
+
+  private write(contextId: string, revisions: ContextRevision[]): void {
+    this.cache.set(contextId, revisions);
+    const file = this.filePath(contextId);
+    if (file) {
+      fs.mkdirSync(this.directory!, { recursive: true });
+      fs.writeFileSync(file, JSON.stringify(revisions, null, 2));
+    }
+  }
+}
@@ -0,0 +1,326 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Logger, createLogger } from "./logger.js";
+import { ContextItem } from "./types.js";
+
+const INDEX_VERSION = 2;
+
+// The log is compacted once it holds this many entries per document, plus a minimum
+const COMPACT_RATIO = 2;
+const COMPACT_MIN = 100;
+
+// BM25 parameters; title terms count TITLE_BOOST times
+const K1 = 1.2;
+const B = 0.75;
+const TITLE_BOOST = 2;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has",
+  "have", "in", "is", "it", "of", "on", "or", "that", "the", "this", "to",
+  "was", "were", "with",
+]);
+
+interface IndexedDocument {
+  length: number;
+  /** `updatedAt` of the indexed context, to tell when the index is stale */
+  updatedAt: number;
+  terms: Record<string, number>;
+}
+
+/** One line of the index log: a document added or replaced, or removed */
+interface IndexEntry {
+  id: string;
+  doc?: IndexedDocument;
+}
+
+/**
+ * Split text into lowercase search terms, dropping stop words
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(
+    (term) => term.length > 1 && !STOP_WORDS.has(term)
+  );
+}
+
+/**
+ * Build a short excerpt around the first matching term, with every
+ * matching term wrapped in `**`
+ */
+export function highlightSnippet(
+  text: string,
+  terms: string[],
+  radius: number = 80
+): string {
+  if (terms.length === 0) {
+    return text.slice(0, radius * 2);
+  }
+
+  const escaped = terms.map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${escaped.join("|")})(?![\\p{L}\\p{N}])`, "giu");
+
+  const first = text.search(pattern);
+  const center = first === -1 ? 0 : first;
+  const start = Math.max(0, center - radius);
+  const end = Math.min(text.length, center + radius);
+
+  const excerpt = text
+    .slice(start, end)
+    .replace(/\s+/g, " ")
+    .replace(pattern, "**$1**");
+
+  return `${start > 0 ? "…" : ""}${excerpt.trim()}${end < text.length ? "…" : ""}`;
+}
+
+/**
+ * Inverted index over context titles and content with BM25 ranking.
+ * When a file path is given, changes are appended to a log there. Entries
+ * appended by other processes sharing the file are applied before each
+ * change and search, and the log is compacted once it grows too long.
+ */
+export class SearchIndex {
+  private documents: Map<string, IndexedDocument> = new Map();
+  private postings: Map<string, Set<string>> = new Map();
+  private totalLength = 0;
+  private indexPath?: string;
+  /** Inode and bytes of the log applied so far, and the entries they hold */
+  private inode?: number;
+  private offset = 0;
+  private entries = 0;
+
+  constructor(indexPath?: string, private logger: Logger = createLogger()) {
+    this.indexPath = indexPath;
+  }
+
+  /**
+   * Load the persisted index. Returns false when there is nothing to load
+   * and the index needs to be rebuilt from storage.
+   */
+  load(): boolean {
+    if (!this.indexPath || !fs.existsSync(this.indexPath)) {
+      return false;
+    }
+    this.clear();
+    return this.refresh();
+  }
+
+  /**
+   * Whether the index holds exactly these contexts at their current versions
+   */
+  isCurrent(contexts: ContextItem[]): boolean {
+    return (
+      contexts.length === this.documents.size &&
+      contexts.every(
+        (context) => this.documents.get(context.id)?.updatedAt === context.updatedAt
+      )
+    );
+  }
+
+  rebuild(contexts: ContextItem[]): void {
+    this.clear();
+    contexts.forEach((context) =>
+      this.addDocument(context.id, this.analyze(context))
+    );
+    this.compact();
+  }
+
+  add(context: ContextItem): void {
+    this.refresh();
+    const doc = this.analyze(context);
+    this.apply({ id: context.id, doc });
+    this.append({ id: context.id, doc });
+  }
+
+  remove(contextId: string): void {
+    this.refresh();
+    if (this.removeDocument(contextId)) {
+      this.append({ id: contextId });
+    }
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Rank documents against a free-text query, best match first
+   */
+  search(query: string): { id: string; score: number }[] {
+    this.refresh();
+    const terms = Array.from(new Set(tokenize(query)));
+    const count = this.documents.size;
+    if (terms.length === 0 || count === 0) {
+      return [];
+    }
+
+    const avgLength = this.totalLength / count;
+    const scores = new Map<string, number>();
+
+    terms.forEach((term) => {
+      const ids = this.postings.get(term);
+      if (!ids) return;
+
+      const idf = Math.log(1 + (count - ids.size + 0.5) / (ids.size + 0.5));
+      ids.forEach((id) => {
+        const doc = this.documents.get(id)!;
+        const tf = doc.terms[term];
+        const norm = tf + K1 * (1 - B + (B * doc.length) / avgLength);
+        scores.set(id, (scores.get(id) || 0) + (idf * tf * (K1 + 1)) / norm);
+      });
+    });
+
+    return Array.from(scores.entries())
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+  }
+
+  private analyze(context: ContextItem): IndexedDocument {
+    // No prototype, so terms like "constructor" start from zero
+    const terms: Record<string, number> = Object.create(null);
+    const titleTerms = tokenize(context.title);
+    const contentTerms = tokenize(context.content);
+
+    titleTerms.forEach((term) => {
+      terms[term] = (terms[term] || 0) + TITLE_BOOST;
+    });
+    contentTerms.forEach((term) => {
+      terms[term] = (terms[term] || 0) + 1;
+    });
+
+    return {
+      length: titleTerms.length * TITLE_BOOST + contentTerms.length,
+      updatedAt: context.updatedAt,
+      terms,
+    };
+  }
+
+  private apply(entry: IndexEntry): void {
+    this.removeDocument(entry.id);
+    if (entry.doc) {
+      this.addDocument(entry.id, {
+        ...entry.doc,
+        terms: Object.assign(Object.create(null), entry.doc.terms),
+      });
+    }
+  }
+
+  private addDocument(id: string, doc: IndexedDocument): void {
+    this.documents.set(id, doc);
+    this.totalLength += doc.length;
+    Object.keys(doc.terms).forEach((term) => {
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Set());
+      }
+      this.postings.get(term)!.add(id);
+    });
+  }
+
+  private removeDocument(id: string): boolean {
+    const doc = this.documents.get(id);
+    if (!doc) return false;
+
+    this.documents.delete(id);
+    this.totalLength -= doc.length;
+    Object.keys(doc.terms).forEach((term) => {
+      const ids = this.postings.get(term);
+      if (!ids) return;
+      ids.delete(id);
+      if (ids.size === 0) {
+        this.postings.delete(term);
+      }
+    });
+    return true;
+  }
+
+  private clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+    this.inode = undefined;
+    this.offset = 0;
+    this.entries = 0;
+  }
+
+  /**
+   * Apply the log entries written since the last read, starting over when
+   * another process has compacted the log. Returns false when there is no
+   * readable log.
+   */
+  private refresh(): boolean {
+    if (!this.indexPath || !fs.existsSync(this.indexPath)) {
+      return false;
+    }
+
+    let fd: number | undefined;
+    try {
+      fd = fs.openSync(this.indexPath, "r");
+      const { ino, size } = fs.fstatSync(fd);
+      if (ino !== this.inode || size < this.offset) {
+        this.clear();
+        this.inode = ino;
+      }
+      if (size === this.offset) {
+        return true;
+      }
+
+      const buffer = Buffer.alloc(size - this.offset);
+      fs.readSync(fd, buffer, 0, buffer.length, this.offset);
+
+      // A line still being appended is read next time
+      const text = buffer.toString("utf-8");
+      const complete = text.slice(0, text.lastIndexOf("\n") + 1);
+      const lines = complete.split("\n").filter((line) => line.length > 0);
+      if (this.offset === 0) {
+        const header = JSON.parse(lines.shift() || "{}") as { version?: number };
+        if (header.version !== INDEX_VERSION) {
+          this.clear();
+          return false;
+        }
+      }
+      lines.forEach((line) => this.apply(JSON.parse(line) as IndexEntry));
+      this.entries += lines.length;
+      this.offset += Buffer.byteLength(complete);
+      return true;
+    } catch (error) {
+      this.logger.error("Failed to read search index:", error);
+      this.clear();
+      return false;
+    } finally {
+      if (fd !== undefined) fs.closeSync(fd);
+    }
+  }
+
+  private append(entry: IndexEntry): void {
+    if (!this.indexPath) return;
+
+    if (
+      this.inode === undefined ||
+      this.entries >= COMPACT_RATIO * this.documents.size + COMPACT_MIN
+    ) {
+      this.compact();
+      return;
+    }
+    fs.appendFileSync(this.indexPath, `${JSON.stringify(entry)}\n`);
+    // Applies the entry again, along with any appended by other processes
+    this.refresh();
+  }
+
+  /**
+   * Replace the log with one entry per document
+   */
+  private compact(): void {
+    if (!this.indexPath) return;
+
+    const lines = [
+      JSON.stringify({ version: INDEX_VERSION }),
+      ...Array.from(this.documents, ([id, doc]) => JSON.stringify({ id, doc })),
+    ];
+    const text = `${lines.join("\n")}\n`;
+    const temporary = `${this.indexPath}.${process.pid}.tmp`;
+    fs.mkdirSync(path.dirname(this.indexPath), { recursive: true });
+    fs.writeFileSync(temporary, text);
+    fs.renameSync(temporary, this.indexPath);
+    this.inode = fs.statSync(this.indexPath).ino;
+    this.offset = Buffer.byteLength(text);
+    this.entries = this.documents.size;
+  }
+}
@@ -0,0 +1,1407 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import {
+  CallToolRequestSchema,
+  CompleteRequestSchema,
+  ErrorCode,
+  ListResourcesRequestSchema,
+  McpError,
+  PromptReferenceSchema,
+  ResourceTemplateReferenceSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import * as path from "path";
+import { z } from "zod";
+import { ContextProcessor } from "./processor.js";
+import { formatModelError } from "./models.js";
+import { describeConfig } from "./config.js";
+import { Logger, createLogger } from "./logger.js";
+import { HttpServerHandle, startHttpServer } from "./http-server.js";
+import { TokenStore, hasScope, toolScope } from "./auth.js";
+import {
+  CONTEXT_URI_TEMPLATE,
+  RESOURCE_PAGE_SIZE,
+  TAG_URI_TEMPLATE,
+  contextResourceContents,
+  contextUri,
+  describeContextResource,
+  tagUri,
+} from "./resources.js";
+import {
+  DEFAULT_PROMPT_CONTEXTS,
+  buildBriefPrompt,
+  reviewContextQualityPrompt,
+  summarizeTaggedContextsPrompt,
+} from "./prompts.js";
+import { completeArgument } from "./completion.js";
+import {
+  CONTEXT_ID_PATTERN,
+  MAX_CONTEXT_ID_LENGTH,
+  isValidContextId,
+} from "./storage.js";
+import {
+  ContextChange,
+  ContextItem,
+  SaveContextRequest,
+  SaveContextResponse,
+  UpdateContextRequest,
+  UpdateContextResponse,
+  LoadContextRequest,
+  LoadContextResponse,
+  RestoreRevisionRequest,
+  ListContextsRequest,
+  ListContextsResponse,
+  SearchContextsRequest,
+  SearchContextsResponse,
+  ModelReloadResult,
+  PreProcessingStrategy,
+  ResolvedConfig,
+  StorageConfig,
+  TokenScope,
+} from "./types.js";
+
+const strategyInputSchema = z.object({
+  name: z.string().describe("Strategy entry name"),
+  type: z
+    .string()
+    .optional()
+    .describe("Registered strategy to run (defaults to name)"),
+  enabled: z.boolean().optional().describe("Defaults to true"),
+  config: z.record(z.string(), z.unknown()).optional(),
+});
+
+const storageLocationSchema = z
+  .union([
+    z.string(),
+    z.looseObject({ type: z.string().describe("Storage backend") }),
+  ])
+  .describe(
+    "Where contexts saved with this model are stored: a directory, or a storage backend configuration such as { type: \"sqlite\", filename }"
+  );
+
+/**
+ * `completion/complete` with, besides prompt and resource template
+ * references, `ref/tool` references to complete tool arguments
+ */
+const completeRequestSchema = CompleteRequestSchema.extend({
+  params: CompleteRequestSchema.shape.params.extend({
+    ref: z.union([
+      PromptReferenceSchema,
+      ResourceTemplateReferenceSchema,
+      z.object({ type: z.literal("ref/tool"), name: z.string() }),
+    ]),
+  }),
+});
+
+/** Context IDs from clients; see isValidContextId */
+const contextIdSchema = z
+  .string()
+  .max(MAX_CONTEXT_ID_LENGTH)
+  .regex(CONTEXT_ID_PATTERN, "Invalid context ID");
+
+interface ModelInput {
+  name: string;
+  description: string;
+  strategies: Array<Omit<PreProcessingStrategy, "enabled"> & { enabled?: boolean }>;
+  storageLocation?: string | StorageConfig;
+  extends?: string;
+}
+
+export interface ContextMCPServerOptions {
+  /** Effective configuration; logged at startup and selects the transport */
+  config?: ResolvedConfig;
+  /** Defaults to a stderr logger at the configured log level */
+  logger?: Logger;
+}
+
+export class ContextMCPServer {
+  /** One MCP server per connection, all sharing the processor */
+  private servers: Set<McpServer> = new Set();
+  /** Resource URIs each connection has subscribed to */
+  private subscriptions: Map<McpServer, Set<string>> = new Map();
+  private httpServer?: HttpServerHandle;
+  private processor: ContextProcessor;
+  private config?: ResolvedConfig;
+  private logger: Logger;
+  private stopWatchingModels?: () => void;
+  private stopWatchingContexts?: () => void;
+
+  /**
+   * Create a server whose processor uses the storage backend, models file,
+   * plugins, unknown-model handling, revision retention and log level of
+   * a resolved configuration. Backends other than `file` and `memory` keep
+   * the search index and revisions in the storage directory, as file
+   * storage does.
+   */
+  static fromConfig(resolved: ResolvedConfig): ContextMCPServer {
+    const { storageType, storageDir, storageFile, maxRevisions, maxAgeDays } =
+      resolved.config;
+    const logger = createLogger(resolved.config.logLevel);
+    const inStorageDir = (...segments: string[]) =>
+      storageType !== "file" && storageType !== "memory"
+        ? path.join(storageDir, ...segments)
+        : undefined;
+    return new ContextMCPServer(
+      new ContextProcessor({
+        storageDir,
+        storage:
+          storageType === "file"
+            ? undefined
+            : { type: storageType, directory: storageDir, filename: storageFile },
+        searchIndexPath: inStorageDir(".index", "search.idx"),
+        revisions: { maxRevisions, maxAgeDays, directory: inStorageDir(".revisions") },
+        modelsPath: resolved.config.modelsPath,
+        protectedFiles: [resolved.config.tokensFile, resolved.configFile].filter(
+          (file): file is string => !!file
+        ),
+        pluginsDir: resolved.config.pluginsDir,
+        unknownModel: resolved.config.unknownModel,
+        logger,
+      }),
+      { config: resolved, logger }
+    );
+  }
+
+  constructor(
+    processor: ContextProcessor = new ContextProcessor(),
+    options: ContextMCPServerOptions = {}
+  ) {
+    this.processor = processor;
+    this.config = options.config;
+    this.logger =
+      options.logger || createLogger(options.config?.config.logLevel);
+  }
+
+  /**
+   * Create an MCP server exposing the tools, resources, prompts and
+   * argument completion, for the stdio client or a new HTTP session
+   */
+  private createServer(): McpServer {
+    const server = new McpServer(
+      {
+        name: "context-processor",
+        version: "1.0.0",
+      },
+      {
+        capabilities: {
+          logging: {},
+          resources: { subscribe: true, listChanged: true },
+          completions: {},
+        },
+      }
+    );
+    this.setupTools(server);
+    this.setupResources(server);
+    this.setupPrompts(server);
+    this.setupCompletions(server);
+    this.servers.add(server);
+    return server;
+  }
+
+  private setupTools(server: McpServer): void {
+    this.authorizeToolCalls(server);
+
+    // Register save_context tool
+    server.registerTool(
+      "save_context",
+      {
+        description:
+          "Save content as context with optional pre-processing using a model",
+        inputSchema: z.object({
+          title: z.string().describe("Title for the context"),
+          content: z.string().describe("Content to save"),
+          tags: z
+            .array(z.string())
+            .optional()
+            .describe("Tags for organizing context"),
+          metadata: z.record(z.string(), z.unknown()).optional().describe("Additional metadata"),
+          modelName: z
+            .string()
+            .optional()
+            .describe("Name of the context model to use for pre-processing"),
+          author: z
+            .string()
+            .optional()
+            .describe("Who made this change (recorded in the revision history)"),
+        }),
+      },
+      async (args) => {
+        try {
+          const result = await this.handleSaveContext({
+            ...(args as SaveContextRequest),
+            source: "save_context",
+          });
+          return {
+            content: [{ type: "text", text: result }],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // Register update_context tool
+    server.registerTool(
+      "update_context",
+      {
+        description:
+          "Update an existing context in place, keeping its ID and creation time",
+        inputSchema: z.object({
+          contextId: contextIdSchema.describe("ID of the context to update"),
+          title: z.string().optional().describe("New title"),
+          content: z.string().optional().describe("New content"),
+          tags: z
+            .array(z.string())
+            .optional()
+            .describe("Replace all tags"),
+          addTags: z
+            .array(z.string())
+            .optional()
+            .describe("Tags to add"),
+          removeTags: z
+            .array(z.string())
+            .optional()
+            .describe("Tags to remove"),
+          metadata: z
+            .record(z.string(), z.unknown())
+            .optional()
+            .describe("Metadata to merge; keys set to null are removed"),
+          modelName: z
+            .string()
+            .optional()
+            .describe("Re-run this context model's strategies on the content"),
+          author: z
+            .string()
+            .optional()
+            .describe("Who made this change (recorded in the revision history)"),
+        }),
+      },
+      async (args) => {
+        try {
+          const result = await this.handleUpdateContext({
+            ...(args as UpdateContextRequest),
+            source: "update_context",
+          });
+          return {
+            content: [{ type: "text", text: result }],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // Register load_context tool
+    server.registerTool(
+      "load_context",
+      {
+        description: "Load a previously saved context by ID",
+        inputSchema: z.object({
+          contextId: contextIdSchema.describe("ID of the context to load"),
+          view: z
+            .enum(["raw", "annotated", "rendered"])
+            .optional()
+            .describe(
+              "raw: original content only; annotated: content plus strategy annotations (default); rendered: annotations merged into the content"
+            ),
+        }),
+      },
+      async (args) => {
+        try {
+          const result = await this.handleLoadContext(args as LoadContextRequest);
+          return {
+            content: [{ type: "text", text: result }],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // Register list_revisions tool
+    server.registerTool(
+      "list_revisions",
+      {
+        description: "List the revision history of a context",
+        inputSchema: z.object({
+          contextId: contextIdSchema.describe("ID of the context"),
+        }),
+      },
+      async (args) => {
+        try {
+          const result = this.handleListRevisions(args as { contextId: string });
+          return {
+            content: [{ type: "text", text: result }],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // Register get_revision tool
+    server.registerTool(
+      "get_revision",
+      {
+        description: "Get a specific revision of a context, including its full snapshot",
+        inputSchema: z.object({
+          contextId: contextIdSchema.describe("ID of the context"),
+          revision: z.number().describe("Revision number"),
+        }),
+      },
+      async (args) => {
+        try {
+          const result = this.handleGetRevision(args as { contextId: string; revision: number });
+          return {
+            content: [{ type: "text", text: result }],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // Register restore_revision tool
+    server.registerTool(
+      "restore_revision",
+      {
+        description:
+          "Restore a context to a previous revision (recorded as a new revision)",
+        inputSchema: z.object({
+          contextId: contextIdSchema.describe("ID of the context"),
+          revision: z.number().describe("Revision number"),
+          author: z
+            .string()
+            .optional()
+            .describe("Who made this change (recorded in the revision history)"),
+        }),
+      },
+      async (args) => {
+        try {
+          const result = this.handleRestoreRevision(args as RestoreRevisionRequest);
+          return {
+            content: [{ type: "text", text: result }],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // Register list_contexts tool
+    server.registerTool(
+      "list_contexts",
+      {
+        description: "List all saved contexts with optional filtering",
+        inputSchema: z.object({
+          tags: z
+            .array(z.string())
+            .optional()
+            .describe("Filter by tags"),
+          query: z
+            .string()
+            .optional()
+            .describe(
+              'Filter expression, e.g. "tag:api AND NOT tag:archived AND metadata.category == tutorial AND updatedAt >= now-7d"'
+            ),
+          text: z
+            .string()
+            .optional()
+            .describe("Free-text search; only matching contexts are returned"),
+          sortBy: z
+            .enum(["createdAt", "updatedAt", "title", "relevance"])
+            .optional()
+            .describe(
+              'Sort field (default "createdAt", or "relevance" when text is given)'
+            ),
+          order: z
+            .enum(["asc", "desc"])
+            .optional()
+            .describe('Sort order (default "asc", "desc" for relevance)'),
+          cursor: z
+            .string()
+            .optional()
+            .describe("Opaque cursor from a previous response's nextCursor"),
+          limit: z
+            .number()
+            .optional()
+            .describe("Maximum number of contexts to return"),
+          offset: z
+            .number()
+            .optional()
+            .describe("Number of contexts to skip"),
+        }),
+      },
+      async (args) => {
+        try {
+          const result = await this.handleListContexts(args as ListContextsRequest);
+          return {
+            content: [{ type: "text", text: result }],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // Register search_contexts tool
+    server.registerTool(
+      "search_contexts",
+      {
+        description:
+          "Full-text search over context titles and content, ranked by relevance (BM25)",
+        inputSchema: z.object({
+          query: z.string().describe("Free-text search query"),
+          tags: z
+            .array(z.string())
+            .optional()
+            .describe("Only return contexts with any of these tags"),
+          limit: z
+            .number()
+            .optional()
+            .describe("Maximum number of results to return (default 10)"),
+        }),
+      },
+      async (args) => {
+        try {
+          const result = this.handleSearchContexts(args as SearchContextsRequest);
+          return {
+            content: [{ type: "text", text: result }],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // Register list_models tool
+    server.registerTool(
+      "list_models",
+      {
+        description: "List available context models for pre-processing",
+        inputSchema: z.object({}),
+      },
+      async () => {
+        try {
+          const result = this.handleListModels();
+          return {
+            content: [{ type: "text", text: result }],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // Register delete_context tool
+    server.registerTool(
+      "delete_context",
+      {
+        description: "Delete a context by ID",
+        inputSchema: z.object({
+          contextId: contextIdSchema.describe("ID of the context to delete"),
+        }),
+      },
+      async (args) => {
+        try {
+          const result = this.handleDeleteContext(args as { contextId: string });
+          return {
+            content: [{ type: "text", text: result }],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // Register get_model_info tool
+    server.registerTool(
+      "get_model_info",
+      {
+        description:
+          "Get detailed information about a context model, including its resolved strategies and the model each one comes from",
+        inputSchema: z.object({
+          modelName: z.string().describe("Name of the model"),
+        }),
+      },
+      async (args) => {
+        try {
+          const result = this.handleGetModelInfo(args as { modelName: string });
+          return {
+            content: [{ type: "text", text: result }],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // Register create_model tool
+    server.registerTool(
+      "create_model",
+      {
+        description:
+          "Define a new context model; it is validated against the registered strategies and saved to the user models file",
+        inputSchema: z.object({
+          name: z.string().describe("Unique model name"),
+          description: z.string().describe("What the model is for"),
+          strategies: z
+            .array(strategyInputSchema)
+            .describe(
+              "Strategies to run, in order; with extends, entries override inherited strategies of the same name or are appended"
+            ),
+          storageLocation: storageLocationSchema.optional(),
+          extends: z
+            .string()
+            .optional()
+            .describe("Name of a model to inherit strategies from"),
+        }),
+      },
+      async (args) => {
+        try {
+          const result = await this.handleCreateModel(args as ModelInput);
+          return {
+            content: [{ type: "text", text: result }],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // Register update_model tool
+    server.registerTool(
+      "update_model",
+      {
+        description:
+          "Change the description, strategies, storage location or parent model of a user-defined model",
+        inputSchema: z.object({
+          name: z.string().describe("Name of the model to update"),
+          description: z.string().optional(),
+          strategies: z
+            .array(strategyInputSchema)
+            .optional()
+            .describe("Replaces the model's strategies"),
+          storageLocation: storageLocationSchema.optional(),
+          extends: z
+            .string()
+            .optional()
+            .describe("Name of a model to inherit strategies from"),
+        }),
+      },
+      async (args) => {
+        try {
+          const result = await this.handleUpdateModel(
+            args as Partial<ModelInput> & { name: string }
+          );
+          return {
+            content: [{ type: "text", text: result }],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // Register delete_model tool
+    server.registerTool(
+      "delete_model",
+      {
+        description: "Delete a user-defined model (built-in models are protected)",
+        inputSchema: z.object({
+          name: z.string().describe("Name of the model to delete"),
+        }),
+      },
+      async (args) => {
+        try {
+          const result = this.handleDeleteModel(args as { name: string });
+          return {
+            content: [{ type: "text", text: result }],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // Register validate_models tool
+    server.registerTool(
+      "validate_models",
+      {
+        description:
+          "Validate a context models file (or JSON text) and report errors per model",
+        inputSchema: z.object({
+          filePath: z
+            .string()
+            .optional()
+            .describe(
+              "Models file to check, inside the models directory (defaults to the loaded models file)"
+            ),
+          content: z
+            .string()
+            .optional()
+            .describe("Models JSON to check instead of a file"),
+        }),
+      },
+      async (args) => {
+        try {
+          const result = await this.handleValidateModels(
+            args as { filePath?: string; content?: string }
+          );
+          return {
+            content: [{ type: "text", text: result }],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+  }
+
+  /**
+   * Expose contexts as `context://{id}` resources and the contexts with a
+   * tag as `context://tag/{tag}`. Subscribed clients are told when a
+   * context changes (see notifyContextChanged).
+   */
+  private setupResources(server: McpServer): void {
+    // Registered first, so tag URIs are not read as context IDs
+    server.registerResource(
+      "contexts-by-tag",
+      new ResourceTemplate(TAG_URI_TEMPLATE, { list: undefined }),
+      {
+        title: "Contexts by tag",
+        description: "Every context with the tag, one content entry per context",
+        mimeType: "text/markdown",
+      },
+      (_uri, { tag }, extra) => {
+        this.assertScope("read", extra);
+        const contexts = this.processor.list({
+          tags: [decodeURIComponent(String(tag))],
+        });
+        return { contents: contexts.map(contextResourceContents) };
+      }
+    );
+
+    server.registerResource(
+      "context",
+      new ResourceTemplate(CONTEXT_URI_TEMPLATE, { list: undefined }),
+      {
+        title: "Context",
+        description: "A stored context with its annotations rendered into the content",
+        mimeType: "text/markdown",
+      },
+      (uri, { id }, extra) => {
+        this.assertScope("read", extra);
+        const contextId = decodeURIComponent(String(id));
+        if (!isValidContextId(contextId)) {
+          throw new McpError(ErrorCode.InvalidParams, `Invalid context ID: ${uri}`);
+        }
+        const context = this.processor.load(contextId);
+        if (!context) {
+          throw new McpError(ErrorCode.InvalidParams, `Context not found: ${uri}`);
+        }
+        return { contents: [contextResourceContents(context)] };
+      }
+    );
+
+    // The SDK lists every resource in one response; page through the
+    // contexts with the list_contexts cursor instead
+    server.server.setRequestHandler(
+      ListResourcesRequestSchema,
+      (request, extra) => {
+        this.assertScope("read", extra);
+        try {
+          const page = this.processor.listPage({
+            limit: RESOURCE_PAGE_SIZE,
+            cursor: request.params?.cursor,
+          });
+          return {
+            resources: page.contexts.map(describeContextResource),
+            nextCursor: page.nextCursor,
+          };
+        } catch (error) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            error instanceof Error ? error.message : String(error)
+          );
+        }
+      }
+    );
+
+    server.server.setRequestHandler(SubscribeRequestSchema, (request, extra) => {
+      this.assertScope("read", extra);
+      const uris = this.subscriptions.get(server) || new Set<string>();
+      uris.add(request.params.uri);
+      this.subscriptions.set(server, uris);
+      return {};
+    });
+
+    server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+      this.subscriptions.get(server)?.delete(request.params.uri);
+      return {};
+    });
+  }
+
+  /**
+   * Prompts for common workflows, embedding the stored contexts they work
+   * on as resources
+   */
+  private setupPrompts(server: McpServer): void {
+    server.registerPrompt(
+      "summarize-tagged-contexts",
+      {
+        title: "Summarize tagged contexts",
+        description: "Summarize the contexts with a tag, most recently updated first",
+        argsSchema: {
+          tag: z.string().describe("Tag of the contexts to summarize"),
+          limit: z
+            .string()
+            .regex(/^[1-9]\d*$/, "Expected a positive integer")
+            .optional()
+            .describe(`Most contexts to include (default ${DEFAULT_PROMPT_CONTEXTS})`),
+        },
+      },
+      ({ tag, limit }, extra) => {
+        this.assertScope("read", extra);
+        const { contexts, total } = this.processor.listPage({
+          tags: [tag],
+          sortBy: "updatedAt",
+          order: "desc",
+          limit: limit ? Number(limit) : DEFAULT_PROMPT_CONTEXTS,
+        });
+        if (total === 0) {
+          throw new McpError(ErrorCode.InvalidParams, `No contexts tagged "${tag}"`);
+        }
+        return summarizeTaggedContextsPrompt(tag, contexts, total);
+      }
+    );
+
+    server.registerPrompt(
+      "build-brief-from-contexts",
+      {
+        title: "Build brief from contexts",
+        description: "Combine chosen contexts into a structured brief",
+        argsSchema: {
+          contextIds: z
+            .string()
+            .describe("IDs of the contexts, separated by commas or whitespace"),
+          goal: z.string().optional().describe("What the brief is for"),
+          audience: z.string().optional().describe("Who will read the brief"),
+        },
+      },
+      ({ contextIds, goal, audience }, extra) => {
+        this.assertScope("read", extra);
+        const ids = Array.from(new Set(contextIds.split(/[\s,]+/).filter(Boolean)));
+        if (ids.length === 0) {
+          throw new McpError(ErrorCode.InvalidParams, "No context IDs given");
+        }
+        const invalid = ids.filter((id) => !isValidContextId(id));
+        if (invalid.length > 0) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Invalid context IDs: ${invalid.join(", ")}`
+          );
+        }
+        const contexts = ids.map((id) => this.processor.load(id));
+        const missing = ids.filter((_, i) => !contexts[i]);
+        if (missing.length > 0) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Contexts not found: ${missing.join(", ")}`
+          );
+        }
+        return buildBriefPrompt(contexts as ContextItem[], { goal, audience });
+      }
+    );
+
+    server.registerPrompt(
+      "review-context-quality",
+      {
+        title: "Review context quality",
+        description:
+          "Review a context for clarity, completeness, staleness and tagging",
+        argsSchema: {
+          contextId: contextIdSchema.describe("ID of the context to review"),
+        },
+      },
+      ({ contextId }, extra) => {
+        this.assertScope("read", extra);
+        const context = this.processor.load(contextId);
+        if (!context) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Context not found: ${contextId}`
+          );
+        }
+        return reviewContextQualityPrompt(context);
+      }
+    );
+  }
+
+  /**
+   * Complete model names, tags and context IDs by argument name (see
+   * completion.ts), for prompts, resource templates and tools alike
+   */
+  private setupCompletions(server: McpServer): void {
+    server.server.setRequestHandler(completeRequestSchema, (request, extra) => {
+      this.assertScope("read", extra);
+      const { name, value } = request.params.argument;
+      return { completion: completeArgument(this.processor, name, value) };
+    });
+  }
+
+  /**
+   * Throw a structured MCP error unless the caller's token has a scope.
+   * A denied tool call also names the tool.
+   */
+  private assertScope(
+    scope: TokenScope,
+    extra: { authInfo?: AuthInfo },
+    tool?: string
+  ): void {
+    if (hasScope(extra.authInfo, scope)) return;
+
+    this.logger.warn(
+      `Token "${extra.authInfo!.clientId}" denied ${tool || "request"}: requires the "${scope}" scope`
+    );
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Insufficient scope: ${tool ? `${tool} ` : ""}requires the "${scope}" scope`,
+      {
+        error: "insufficient_scope",
+        ...(tool && { tool }),
+        requiredScope: scope,
+        grantedScopes: extra.authInfo!.scopes,
+      }
+    );
+  }
+
+  /**
+   * Check the scope of each tool call before McpServer runs the tool.
+   * McpServer turns errors thrown by tool callbacks into `isError`
+   * results, so the check wraps the tools/call handler it installs on
+   * the first `registerTool`.
+   */
+  private authorizeToolCalls(server: McpServer): void {
+    const protocol = server.server;
+    const setRequestHandler = protocol.setRequestHandler.bind(protocol);
+    type ToolCallHandler = Parameters<
+      typeof setRequestHandler<typeof CallToolRequestSchema>
+    >[1];
+    protocol.setRequestHandler = ((schema: unknown, handler: ToolCallHandler) =>
+      setRequestHandler(
+        schema as typeof CallToolRequestSchema,
+        schema === CallToolRequestSchema
+          ? (request, extra) => {
+              const tool = request.params.name;
+              this.assertScope(toolScope(tool), extra, tool);
+              return handler(request, extra);
+            }
+          : handler
+      )) as typeof protocol.setRequestHandler;
+  }
+
+  private async handleSaveContext(
+    request: SaveContextRequest
+  ): Promise<string> {
+    const saved = await this.processor.save(request);
+
+    const response: SaveContextResponse = {
+      success: true,
+      contextId: saved.id,
+      processedContent: saved.processedContent,
+      appliedStrategies: saved.appliedStrategies,
+      strategyResults: saved.strategyResults,
+      failedStrategies: saved.failedStrategies,
+      warnings: saved.warnings,
+      timestamp: saved.updatedAt,
+    };
+
+    return JSON.stringify(response, null, 2);
+  }
+
+  private async handleUpdateContext(
+    request: UpdateContextRequest
+  ): Promise<string> {
+    const updated = await this.processor.update(request);
+    if (!updated) {
+      return JSON.stringify({
+        success: false,
+        error: "Context not found",
+      });
+    }
+
+    const {
+      processedContent,
+      appliedStrategies,
+      strategyResults,
+      failedStrategies,
+      warnings,
+      ...context
+    } = updated;
+    const response: UpdateContextResponse = {
+      success: true,
+      context,
+      processedContent,
+      appliedStrategies,
+      strategyResults,
+      failedStrategies,
+      warnings,
+      timestamp: context.updatedAt,
+    };
+
+    return JSON.stringify(response, null, 2);
+  }
+
+  private handleListRevisions(args: { contextId: string }): string {
+    const revisions = this.processor
+      .listRevisions(args.contextId)
+      .map(({ snapshot, ...revision }) => revision);
+
+    return JSON.stringify(
+      {
+        contextId: args.contextId,
+        revisions,
+        total: revisions.length,
+      },
+      null,
+      2
+    );
+  }
+
+  private handleGetRevision(args: { contextId: string; revision: number }): string {
+    const revision = this.processor.getRevision(args.contextId, args.revision);
+    if (!revision) {
+      return JSON.stringify({
+        success: false,
+        error: "Revision not found",
+      });
+    }
+
+    return JSON.stringify(revision, null, 2);
+  }
+
+  private handleRestoreRevision(request: RestoreRevisionRequest): string {
+    const context = this.processor.restoreRevision(request);
+    if (!context) {
+      return JSON.stringify({
+        success: false,
+        error: "Context or revision not found",
+      });
+    }
+
+    return JSON.stringify(
+      {
+        success: true,
+        context,
+        restoredRevision: request.revision,
+      },
+      null,
+      2
+    );
+  }
+
+  private async handleLoadContext(
+    request: LoadContextRequest
+  ): Promise<string> {
+    const context = this.processor.load(request.contextId, request.view);
+    if (!context) {
+      return JSON.stringify({
+        success: false,
+        error: "Context not found",
+      });
+    }
+
+    const response: LoadContextResponse = {
+      context,
+      relatedContexts: this.processor.related(context),
+    };
+
+    return JSON.stringify(response, null, 2);
+  }
+
+  private async handleListContexts(
+    request: ListContextsRequest
+  ): Promise<string> {
+    const response: ListContextsResponse = this.processor.listPage(request);
+
+    return JSON.stringify(response, null, 2);
+  }
+
+  private handleSearchContexts(request: SearchContextsRequest): string {
+    const response: SearchContextsResponse = {
+      query: request.query,
+      results: this.processor.fullTextSearch({
+        ...request,
+        limit: request.limit || 10,
+      }),
+    };
+
+    return JSON.stringify(response, null, 2);
+  }
+
+  private handleListModels(): string {
+    const modelsList = this.processor.listModels().map((m) => ({
+      name: m.name,
+      description: m.description,
+      strategyCount: m.strategies.length,
+      builtIn: m.builtIn,
+    }));
+
+    return JSON.stringify(
+      {
+        models: modelsList,
+        total: modelsList.length,
+      },
+      null,
+      2
+    );
+  }
+
+  private handleDeleteContext(args: { contextId: string }): string {
+    const success = this.processor.delete(args.contextId);
+    return JSON.stringify({
+      success,
+      contextId: args.contextId,
+      message: success ? "Context deleted" : "Context not found",
+    });
+  }
+
+  private handleGetModelInfo(args: { modelName: string }): string {
+    const model = this.processor.resolveModel(args.modelName);
+    if (!model) {
+      return JSON.stringify({
+        error: "Model not found",
+        available: this.processor.getModels().map((m) => m.name),
+      });
+    }
+
+    return JSON.stringify(model, null, 2);
+  }
+
+  private async handleCreateModel(args: ModelInput): Promise<string> {
+    const model = await this.processor.createModel({
+      ...args,
+      strategies: this.withEnabledDefault(args.strategies),
+    });
+    this.notifyToolListChanged();
+
+    return JSON.stringify({ success: true, model }, null, 2);
+  }
+
+  private async handleUpdateModel(
+    args: Partial<ModelInput> & { name: string }
+  ): Promise<string> {
+    const model = await this.processor.updateModel({
+      ...args,
+      strategies: args.strategies && this.withEnabledDefault(args.strategies),
+    });
+    if (!model) {
+      return JSON.stringify({
+        success: false,
+        error: "Model not found",
+      });
+    }
+    this.notifyToolListChanged();
+
+    return JSON.stringify({ success: true, model }, null, 2);
+  }
+
+  private handleDeleteModel(args: { name: string }): string {
+    const success = this.processor.deleteModel(args.name);
+    if (success) {
+      this.notifyToolListChanged();
+    }
+    return JSON.stringify({
+      success,
+      name: args.name,
+      message: success ? "Model deleted" : "Model not found",
+    });
+  }
+
+  private withEnabledDefault(
+    strategies: ModelInput["strategies"]
+  ): PreProcessingStrategy[] {
+    return strategies.map((s) => ({ ...s, enabled: s.enabled ?? true }));
+  }
+
+  private async handleValidateModels(args: {
+    filePath?: string;
+    content?: string;
+  }): Promise<string> {
+    const result = await this.processor.validateModels(args);
+
+    return JSON.stringify(
+      {
+        valid: result.valid,
+        models: result.models.map((m) => m.name),
+        errors: result.errors.map((error) => ({
+          ...error,
+          description: formatModelError(error),
+        })),
+      },
+      null,
+      2
+    );
+  }
+
+  /**
+   * Tell the client that the models changed, or why they did not
+   */
+  private async notifyModelsReloaded(result: ModelReloadResult): Promise<void> {
+    if (result.reloaded) {
+      this.logger.info(`Context models reloaded: ${result.models.join(", ")}`);
+      this.notifyToolListChanged();
+      await this.broadcastLog({
+        level: "info",
+        logger: "context-models",
+        data: { message: "Context models reloaded", models: result.models },
+      });
+    } else {
+      const errors = result.errors.map(formatModelError);
+      this.logger.error(
+        `Context models not reloaded, keeping the previous models:\n${errors.join("\n")}`
+      );
+      await this.broadcastLog({
+        level: "error",
+        logger: "context-models",
+        data: {
+          message: "Context models not reloaded; keeping the previous models",
+          errors,
+        },
+      });
+    }
+  }
+
+  /**
+   * Tell every connected client that the tool list has changed
+   */
+  private notifyToolListChanged(): void {
+    this.servers.forEach((server) => server.sendToolListChanged());
+  }
+
+  /**
+   * Send `resources/updated` for the context and its tags (before and
+   * after the change) to subscribed clients, and `resources/list_changed`
+   * when a context was created or deleted
+   */
+  private notifyContextChanged(change: ContextChange): void {
+    const tags = new Set([...change.context.tags, ...(change.previous?.tags || [])]);
+    const uris = [contextUri(change.context.id), ...Array.from(tags).map(tagUri)];
+
+    this.servers.forEach((server) => {
+      if (!server.isConnected()) return;
+      if (change.type !== "updated") {
+        server.sendResourceListChanged();
+      }
+      const subscribed = this.subscriptions.get(server);
+      uris
+        .filter((uri) => subscribed?.has(uri))
+        .forEach((uri) =>
+          server.server.sendResourceUpdated({ uri }).catch((error) =>
+            this.logger.error(`Failed to send resource update for ${uri}:`, error)
+          )
+        );
+    });
+  }
+
+  private async broadcastLog(
+    params: Parameters<McpServer["sendLoggingMessage"]>[0]
+  ): Promise<void> {
+    await Promise.all(
+      Array.from(this.servers)
+        .filter((server) => server.isConnected())
+        .map((server) => server.sendLoggingMessage(params))
+    );
+  }
+
+  /**
+   * Serve over the configured transport: stdio (default) or streamable
+   * HTTP, where several clients share this server and, with a tokens
+   * file, must authenticate
+   */
+  async start(): Promise<void> {
+    const settings = this.config?.config;
+    if (settings?.transport === "http") {
+      const tokens = settings.tokensFile
+        ? TokenStore.fromFile(settings.tokensFile)
+        : undefined;
+      if (tokens) {
+        this.logger.info(`Loaded ${tokens.size} API token(s) from ${settings.tokensFile}`);
+      } else {
+        this.logger.warn(
+          "No tokens file configured; every HTTP client has full access"
+        );
+      }
+      this.httpServer = await startHttpServer({
+        host: settings.host,
+        port: settings.port,
+        createSession: () => this.createServer(),
+        onSessionClosed: (server) => {
+          this.servers.delete(server);
+          this.subscriptions.delete(server);
+        },
+        tokens,
+        logger: this.logger,
+      });
+    } else {
+      await this.createServer().connect(new StdioServerTransport());
+    }
+
+    this.stopWatchingContexts = this.processor.onChange((change) =>
+      this.notifyContextChanged(change)
+    );
+    this.stopWatchingModels = this.processor.watchModels((result) => {
+      this.notifyModelsReloaded(result).catch((error) =>
+        this.logger.error("Failed to send model reload notification:", error)
+      );
+    });
+    if (this.config) {
+      describeConfig(this.config).forEach((line) => this.logger.info(line));
+    }
+    this.logger.info(
+      this.httpServer
+        ? `Context Processor listening on ${this.httpServer.url}`
+        : "Context Processor started"
+    );
+  }
+
+  /**
+   * URL of the MCP endpoint when serving over HTTP
+   */
+  get url(): string | undefined {
+    return this.httpServer?.url;
+  }
+
+  async stop(): Promise<void> {
+    this.stopWatchingModels?.();
+    this.stopWatchingContexts?.();
+    await this.httpServer?.close();
+    this.httpServer = undefined;
+    await Promise.all(Array.from(this.servers).map((server) => server.close()));
+    this.servers.clear();
+    this.subscriptions.clear();
+  }
+}
@@ -0,0 +1,222 @@
+import type Database from "better-sqlite3";
+import * as fs from "fs";
+import * as path from "path";
+import { nativeRequire } from "./native-require.js";
+import { ContextItem, StorageAdapter } from "./types.js";
+
+const SCHEMA_VERSION = 3;
+
+let loadedDatabase: typeof Database | undefined;
+
+/**
+ * Load the native better-sqlite3 module on first use, so file and memory
+ * storage work without it
+ */
+function loadDatabase(): typeof Database {
+  if (!loadedDatabase) {
+    try {
+      loadedDatabase = nativeRequire("better-sqlite3") as typeof Database;
+    } catch (error) {
+      throw new Error(
+        `SQLite storage requires the better-sqlite3 package: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+  return loadedDatabase;
+}
+
+interface ContextRow {
+  id: string;
+  title: string;
+  content: string;
+  metadata: string;
+  tags: string;
+  annotations: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * SQLite storage adapter. Contexts live in a single database file with a
+ * separate tag table, so tag filters, pagination and totals in creation
+ * order are answered by indexed queries instead of reading every context.
+ */
+export class SqliteContextStorage implements StorageAdapter {
+  private db: Database.Database;
+
+  constructor(filename: string = "./contexts.db") {
+    if (filename !== ":memory:") {
+      fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+    }
+    const Sqlite = loadDatabase();
+    this.db = new Sqlite(filename);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("foreign_keys = ON");
+    this.migrate();
+  }
+
+  private migrate(): void {
+    const version = this.db.pragma("user_version", { simple: true }) as number;
+    if (version >= SCHEMA_VERSION) return;
+
+    if (version < 1) {
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS contexts (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          content TEXT NOT NULL,
+          metadata TEXT NOT NULL,
+          tags TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_contexts_created ON contexts (created_at, id);
+
+        CREATE TABLE IF NOT EXISTS context_tags (
+          context_id TEXT NOT NULL REFERENCES contexts (id) ON DELETE CASCADE,
+          tag TEXT NOT NULL,
+          PRIMARY KEY (context_id, tag)
+        );
+        CREATE INDEX IF NOT EXISTS idx_context_tags_tag ON context_tags (tag, context_id);
+      `);
+    }
+    if (version < 2) {
+      this.db.exec("ALTER TABLE contexts ADD COLUMN annotations TEXT");
+    }
+    if (version < 3) {
+      // Earlier databases kept a metadata table and an updated_at index
+      // that no query used; metadata filters and other sort orders run on
+      // the loaded contexts
+      this.db.exec(`
+        DROP TABLE IF EXISTS context_metadata;
+        DROP INDEX IF EXISTS idx_contexts_updated;
+      `);
+    }
+    this.db.pragma(`user_version = ${SCHEMA_VERSION}`);
+  }
+
+  save(context: ContextItem): void {
+    this.db.transaction(() => this.write(context))();
+  }
+
+  load(contextId: string): ContextItem | null {
+    const row = this.db
+      .prepare("SELECT * FROM contexts WHERE id = ?")
+      .get(contextId) as ContextRow | undefined;
+    return row ? this.toContext(row) : null;
+  }
+
+  list(): ContextItem[] {
+    const rows = this.db
+      .prepare("SELECT * FROM contexts ORDER BY created_at, id")
+      .all() as ContextRow[];
+    return rows.map((row) => this.toContext(row));
+  }
+
+  delete(contextId: string): boolean {
+    const result = this.db
+      .prepare("DELETE FROM contexts WHERE id = ?")
+      .run(contextId);
+    return result.changes > 0;
+  }
+
+  search(tags?: string[], limit?: number, offset?: number): ContextItem[] {
+    const { where, params } = this.tagFilter(tags);
+    let sql = `SELECT * FROM contexts ${where} ORDER BY created_at, id`;
+    if (limit || offset) {
+      sql += " LIMIT ? OFFSET ?";
+      params.push(limit || -1, offset || 0);
+    }
+    const rows = this.db.prepare(sql).all(...params) as ContextRow[];
+    return rows.map((row) => this.toContext(row));
+  }
+
+  count(tags?: string[]): number {
+    const { where, params } = this.tagFilter(tags);
+    const row = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM contexts ${where}`)
+      .get(...params) as { total: number };
+    return row.total;
+  }
+
+  /**
+   * Copy every context from another adapter in a single transaction.
+   * Returns the number of imported contexts.
+   */
+  importFrom(source: StorageAdapter): number {
+    const contexts = source.list();
+    this.db.transaction(() => {
+      contexts.forEach((context) => this.write(context));
+    })();
+    return contexts.length;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private write(context: ContextItem): void {
+    this.db
+      .prepare(
+        `INSERT INTO contexts (id, title, content, metadata, tags, annotations, created_at, updated_at)
+         VALUES (@id, @title, @content, @metadata, @tags, @annotations, @createdAt, @updatedAt)
+         ON CONFLICT (id) DO UPDATE SET
+           title = excluded.title,
+           content = excluded.content,
+           metadata = excluded.metadata,
+           tags = excluded.tags,
+           annotations = excluded.annotations,
+           created_at = excluded.created_at,
+           updated_at = excluded.updated_at`
+      )
+      .run({
+        id: context.id,
+        title: context.title,
+        content: context.content,
+        metadata: JSON.stringify(context.metadata || {}),
+        tags: JSON.stringify(context.tags || []),
+        annotations: context.annotations
+          ? JSON.stringify(context.annotations)
+          : null,
+        createdAt: context.createdAt,
+        updatedAt: context.updatedAt,
+      });
+
+    this.db
+      .prepare("DELETE FROM context_tags WHERE context_id = ?")
+      .run(context.id);
+    const insertTag = this.db.prepare(
+      "INSERT OR IGNORE INTO context_tags (context_id, tag) VALUES (?, ?)"
+    );
+    (context.tags || []).forEach((tag) => insertTag.run(context.id, tag));
+  }
+
+  private tagFilter(tags?: string[]): { where: string; params: unknown[] } {
+    if (!tags || tags.length === 0) {
+      return { where: "", params: [] };
+    }
+    const placeholders = tags.map(() => "?").join(", ");
+    return {
+      where: `WHERE id IN (SELECT context_id FROM context_tags WHERE tag IN (${placeholders}))`,
+      params: [...tags],
+    };
+  }
+
+  private toContext(row: ContextRow): ContextItem {
+    const context: ContextItem = {
+      id: row.id,
+      title: row.title,
+      content: row.content,
+      metadata: JSON.parse(row.metadata),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      tags: JSON.parse(row.tags),
+    };
+    if (row.annotations) {
+      context.annotations = JSON.parse(row.annotations);
+    }
+    return context;
+  }
+}
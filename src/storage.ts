@@ -1,8 +1,78 @@
 import * as fs from "fs";
 import * as path from "path";
-import { ContextItem } from "./types.js";
+import { SqliteContextStorage } from "./sqlite-storage.js";
+import { sortContexts } from "./pagination.js";
+import { ContextItem, StorageAdapter, StorageConfig } from "./types.js";
 
-export class ContextStorage {
+/** Longest accepted context ID */
+export const MAX_CONTEXT_ID_LENGTH = 128;
+
+/**
+ * Letters, digits, `_` and `-`, with single dots between them, so an ID
+ * never names a path outside the storage directory. Generated IDs are UUIDs.
+ */
+export const CONTEXT_ID_PATTERN = /^[A-Za-z0-9_-]+(\.[A-Za-z0-9_-]+)*$/;
+
+export function isValidContextId(id: string): boolean {
+  return id.length <= MAX_CONTEXT_ID_LENGTH && CONTEXT_ID_PATTERN.test(id);
+}
+
+/**
+ * Throw unless an ID is safe to use as a file name
+ */
+export function assertValidContextId(id: string): void {
+  if (!isValidContextId(id)) {
+    throw new Error(`Invalid context ID: ${JSON.stringify(id)}`);
+  }
+}
+
+/**
+ * Apply tag filtering (OR semantics), creation-time ordering and pagination
+ * to a list of contexts
+ */
+export function filterContexts(
+  contexts: ContextItem[],
+  tags?: string[],
+  limit?: number,
+  offset?: number
+): ContextItem[] {
+  if (tags && tags.length > 0) {
+    contexts = contexts.filter((ctx) =>
+      tags.some((tag) => ctx.tags.includes(tag))
+    );
+  }
+
+  contexts = sortContexts(contexts, "createdAt", "asc");
+
+  offset = offset || 0;
+  return limit
+    ? contexts.slice(offset, offset + limit)
+    : contexts.slice(offset);
+}
+
+/**
+ * Whether parsed JSON has the fields of a stored context
+ */
+function isContextItem(value: unknown): value is ContextItem {
+  const context = value as Partial<ContextItem> | null;
+  return (
+    typeof context === "object" &&
+    context !== null &&
+    typeof context.id === "string" &&
+    typeof context.title === "string" &&
+    typeof context.content === "string" &&
+    Array.isArray(context.tags) &&
+    typeof context.createdAt === "number" &&
+    typeof context.updatedAt === "number"
+  );
+}
+
+/**
+ * File-based storage adapter: one JSON file per context in a directory.
+ * Other JSON files in the directory are ignored, never read as contexts
+ * or deleted.
+ */
+export class ContextStorage implements StorageAdapter {
   private storageDir: string;
 
   constructor(storageDir: string = "./contexts") {
@@ -16,34 +86,41 @@ export class ContextStorage {
     }
   }
 
+  private filePath(contextId: string): string {
+    assertValidContextId(contextId);
+    return path.join(this.storageDir, `${contextId}.json`);
+  }
+
+  /** The context in a file, or null when it is missing or not a context */
+  private read(filePath: string): ContextItem | null {
+    try {
+      const data: unknown = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+      return isContextItem(data) ? data : null;
+    } catch {
+      return null;
+    }
+  }
+
   save(context: ContextItem): void {
-    const filePath = path.join(this.storageDir, `${context.id}.json`);
+    const filePath = this.filePath(context.id);
     fs.writeFileSync(filePath, JSON.stringify(context, null, 2));
   }
 
   load(contextId: string): ContextItem | null {
-    const filePath = path.join(this.storageDir, `${contextId}.json`);
-    if (!fs.existsSync(filePath)) {
-      return null;
-    }
-    const data = fs.readFileSync(filePath, "utf-8");
-    return JSON.parse(data) as ContextItem;
+    return this.read(this.filePath(contextId));
   }
 
   list(): ContextItem[] {
-    const files = fs.readdirSync(this.storageDir);
-    return files
+    return fs
+      .readdirSync(this.storageDir)
       .filter((file) => file.endsWith(".json"))
-      .map((file) => {
-        const filePath = path.join(this.storageDir, file);
-        const data = fs.readFileSync(filePath, "utf-8");
-        return JSON.parse(data) as ContextItem;
-      });
+      .map((file) => this.read(path.join(this.storageDir, file)))
+      .filter((context): context is ContextItem => context !== null);
   }
 
   delete(contextId: string): boolean {
-    const filePath = path.join(this.storageDir, `${contextId}.json`);
-    if (!fs.existsSync(filePath)) {
+    const filePath = this.filePath(contextId);
+    if (!this.read(filePath)) {
       return false;
     }
     fs.unlinkSync(filePath);
@@ -51,19 +128,168 @@ export class ContextStorage {
   }
 
   search(tags?: string[], limit?: number, offset?: number): ContextItem[] {
-    let contexts = this.list();
+    return filterContexts(this.list(), tags, limit, offset);
+  }
+
+  count(tags?: string[]): number {
+    return filterContexts(this.list(), tags).length;
+  }
+}
+
+/**
+ * In-memory storage adapter for tests and embedding. Contexts are copied
+ * on the way in and out so callers cannot mutate stored state.
+ */
+export class MemoryContextStorage implements StorageAdapter {
+  private contexts: Map<string, ContextItem> = new Map();
+
+  save(context: ContextItem): void {
+    this.contexts.set(context.id, this.copy(context));
+  }
+
+  load(contextId: string): ContextItem | null {
+    const context = this.contexts.get(contextId);
+    return context ? this.copy(context) : null;
+  }
+
+  list(): ContextItem[] {
+    return Array.from(this.contexts.values()).map((c) => this.copy(c));
+  }
+
+  delete(contextId: string): boolean {
+    return this.contexts.delete(contextId);
+  }
+
+  search(tags?: string[], limit?: number, offset?: number): ContextItem[] {
+    return filterContexts(this.list(), tags, limit, offset);
+  }
+
+  count(tags?: string[]): number {
+    return filterContexts(this.list(), tags).length;
+  }
+
+  private copy(context: ContextItem): ContextItem {
+    return JSON.parse(JSON.stringify(context)) as ContextItem;
+  }
+}
+
+export type StorageFactory = (config: StorageConfig) => StorageAdapter;
+
+const storageBackends = new Map<string, StorageFactory>([
+  ["file", (config: StorageConfig) => new ContextStorage(config.directory)],
+  ["memory", () => new MemoryContextStorage()],
+  ["sqlite", (config: StorageConfig) => new SqliteContextStorage(config.filename)],
+]);
+
+/**
+ * Register a storage backend that can then be selected by `type`
+ */
+export function registerStorageBackend(
+  type: string,
+  factory: StorageFactory
+): void {
+  storageBackends.set(type, factory);
+}
+
+/**
+ * Create a storage adapter from configuration
+ */
+export function createStorage(config: StorageConfig): StorageAdapter {
+  const factory = storageBackends.get(config.type);
+  if (!factory) {
+    throw new Error(
+      `Unknown storage backend "${config.type}". Available: ${Array.from(
+        storageBackends.keys()
+      ).join(", ")}`
+    );
+  }
+  return factory(config);
+}
+
+/**
+ * Storage spanning a default adapter and any number of additional
+ * locations, e.g. one per model `storageLocation`. Contexts are loaded,
+ * updated and deleted wherever they are stored; `saveTo` places a context
+ * in a specific location.
+ */
+export class MultiLocationStorage implements StorageAdapter {
+  private locations: Map<string, StorageAdapter> = new Map();
+
+  constructor(private primary: StorageAdapter) {}
+
+  /**
+   * Register an adapter under a location key. Existing keys are kept.
+   */
+  addLocation(key: string, adapter: () => StorageAdapter): void {
+    if (!this.locations.has(key)) {
+      this.locations.set(key, adapter());
+    }
+  }
+
+  hasLocation(key: string): boolean {
+    return this.locations.has(key);
+  }
+
+  /**
+   * Save a context to a location (the default one when no key is given),
+   * removing it from any other location that held it
+   */
+  saveTo(context: ContextItem, key?: string): void {
+    const target = key === undefined ? this.primary : this.locations.get(key);
+    if (!target) {
+      throw new Error(`Unknown storage location "${key}"`);
+    }
+    this.adapters()
+      .filter((adapter) => adapter !== target)
+      .forEach((adapter) => adapter.delete(context.id));
+    target.save(context);
+  }
+
+  save(context: ContextItem): void {
+    const current = this.adapters().find((adapter) => adapter.load(context.id));
+    (current || this.primary).save(context);
+  }
+
+  load(contextId: string): ContextItem | null {
+    for (const adapter of this.adapters()) {
+      const context = adapter.load(contextId);
+      if (context) return context;
+    }
+    return null;
+  }
+
+  list(): ContextItem[] {
+    // Locations may share a directory, so each context is listed once
+    const seen = new Set<string>();
+    return this.adapters()
+      .flatMap((adapter) => adapter.list())
+      .filter((context) => !seen.has(context.id) && !!seen.add(context.id));
+  }
+
+  delete(contextId: string): boolean {
+    return this.adapters()
+      .map((adapter) => adapter.delete(contextId))
+      .some((deleted) => deleted);
+  }
 
-    if (tags && tags.length > 0) {
-      contexts = contexts.filter((ctx) =>
-        tags.some((tag) => ctx.tags.includes(tag))
-      );
+  search(tags?: string[], limit?: number, offset?: number): ContextItem[] {
+    // A single location can use its backend's own filtering
+    if (this.locations.size === 0) {
+      return this.primary.search(tags, limit, offset);
     }
+    return filterContexts(this.list(), tags, limit, offset);
+  }
 
-    offset = offset || 0;
-    if (limit) {
-      contexts = contexts.slice(offset, offset + limit);
+  count(tags?: string[]): number {
+    if (this.locations.size === 0) {
+      return this.primary.count
+        ? this.primary.count(tags)
+        : this.primary.search(tags).length;
     }
+    return filterContexts(this.list(), tags).length;
+  }
 
-    return contexts;
+  private adapters(): StorageAdapter[] {
+    return [this.primary, ...Array.from(this.locations.values())];
   }
 }
@@ -0,0 +1,444 @@
+import * as fs from "fs";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { z } from "zod";
+import { Logger, createLogger } from "./logger.js";
+import {
+  AnalyzeOutput,
+  CustomStrategyFunction,
+  StrategyContext,
+  StrategyDefinition,
+  StrategyRun,
+} from "./types.js";
+
+const customProcessors = new Map<string, Promise<CustomStrategyFunction>>();
+
+const DEFAULT_STOPWORDS = [
+  "the",
+  "and",
+  "that",
+  "with",
+  "from",
+  "have",
+  "this",
+  "been",
+  "more",
+  "which",
+];
+
+const clarifyConfigSchema = z
+  .object({
+    /** More ambiguous pronouns than this lower the score */
+    pronounThreshold: z.number().int().nonnegative().default(5),
+    /** More passive constructions than this lower the score */
+    passiveThreshold: z.number().int().nonnegative().default(3),
+    vagueWords: z
+      .array(z.string().min(1))
+      .default(["basically", "generally", "usually", "kind of", "sort of"]),
+    /** Score deducted per vague word */
+    vagueWordPenalty: z.number().nonnegative().default(2),
+    /** Whole-word, case-insensitive replacements for the clarified content */
+    replacements: z
+      .record(z.string().min(1), z.string())
+      .default({ basically: "specifically", "kind of": "", "sort of": "" }),
+  })
+  .strict();
+
+const searchConfigSchema = z
+  .object({
+    maxKeywords: z.number().int().positive().default(10),
+    /** How many of the top keywords become recommended searches */
+    maxSearches: z.number().int().positive().default(3),
+    minWordLength: z.number().int().positive().default(5),
+    /** Added to the built-in stopword list */
+    stopwords: z.array(z.string()).default([]),
+  })
+  .strict();
+
+const analyzeConfigSchema = z.object({}).strict();
+
+const fetchConfigSchema = z
+  .object({
+    maxUrls: z.number().int().positive().default(5),
+  })
+  .strict();
+
+const customConfigSchema = z.looseObject({
+  processor: z.string().optional(),
+  export: z.string().default("default"),
+});
+
+type ClarifyConfig = z.output<typeof clarifyConfigSchema>;
+type SearchConfig = z.output<typeof searchConfigSchema>;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function wordPattern(words: string[]): RegExp {
+  return new RegExp(`\\b(${words.map(escapeRegExp).join("|")})\\b`, "gi");
+}
+
+function analyzeClarity(
+  content: string,
+  config: ClarifyConfig
+): {
+  score: number;
+  issues: string[];
+} {
+  const issues: string[] = [];
+  let score = 100;
+
+  // Check for ambiguous pronouns
+  const pronounMatches = content.match(/\b(it|this|that|they)\b/gi);
+  if (pronounMatches && pronounMatches.length > config.pronounThreshold) {
+    issues.push("Multiple ambiguous pronouns detected");
+    score -= 10;
+  }
+
+  // Check for passive voice
+  const passiveMatches = content.match(/\b(is|are|was|were)\s+\w+ed\b/gi);
+  if (passiveMatches && passiveMatches.length > config.passiveThreshold) {
+    issues.push("Heavy use of passive voice");
+    score -= 5;
+  }
+
+  // Check for vague language
+  const vagueWords =
+    config.vagueWords.length > 0
+      ? content.match(wordPattern(config.vagueWords)) || []
+      : [];
+  if (vagueWords.length > 0) {
+    issues.push(`Found ${vagueWords.length} vague word(s)`);
+    score -= vagueWords.length * config.vagueWordPenalty;
+  }
+
+  return { score: Math.max(0, score), issues };
+}
+
+function improveClarity(content: string, config: ClarifyConfig): string {
+  let improved = content;
+
+  // Suggest replacements for vague words
+  Object.entries(config.replacements).forEach(([word, replacement]) => {
+    improved = improved.replace(wordPattern([word]), replacement);
+  });
+
+  return improved;
+}
+
+function extractKeywords(content: string, config: SearchConfig): string[] {
+  const stopwords = new Set([
+    ...DEFAULT_STOPWORDS,
+    ...config.stopwords.map((word) => word.toLowerCase()),
+  ]);
+  const words = content
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(
+      (word) =>
+        word.length >= config.minWordLength &&
+        !stopwords.has(word.replace(/[^a-z]/g, ""))
+    );
+
+  const frequency: Record<string, number> = {};
+  words.forEach((word) => {
+    frequency[word] = (frequency[word] || 0) + 1;
+  });
+
+  return Object.entries(frequency)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, config.maxKeywords)
+    .map(([word]) => word);
+}
+
+function calculateAvgWordLength(content: string): number {
+  const words = content.split(/\s+/);
+  const totalLength = words.reduce((sum, word) => sum + word.length, 0);
+  return totalLength / words.length;
+}
+
+function assessComplexity(content: string): AnalyzeOutput["complexity"] {
+  const avgWordLength = calculateAvgWordLength(content);
+  if (avgWordLength > 6) return "high";
+  if (avgWordLength > 4) return "medium";
+  return "low";
+}
+
+function extractUrls(content: string, maxUrls: number): string[] {
+  const urlRegex = /https?:\/\/[^\s]+/g;
+  return (content.match(urlRegex) || []).slice(0, maxUrls);
+}
+
+/**
+ * Format validation issues as `path: message` pairs
+ */
+export function formatIssues(issues: z.core.$ZodIssue[]): string {
+  return issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message
+    )
+    .join("; ");
+}
+
+/**
+ * Declare a strategy whose `run` receives the config parsed by its schema
+ */
+export function defineStrategy<S extends z.ZodType>(definition: {
+  name: string;
+  description?: string;
+  configSchema: S;
+  run(
+    content: string,
+    config: z.output<S>,
+    context: StrategyContext
+  ): StrategyRun | Promise<StrategyRun>;
+}): StrategyDefinition {
+  return definition as StrategyDefinition;
+}
+
+/**
+ * Whether a path is a directory or lies inside it
+ */
+export function isWithinDirectory(target: string, directory: string): boolean {
+  const relative = path.relative(path.resolve(directory), path.resolve(target));
+  return !(relative === ".." || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative));
+}
+
+/**
+ * Resolve a custom processor module against the models directory. Modules
+ * outside it are rejected, so models created at runtime cannot run
+ * arbitrary files.
+ */
+export function resolveCustomProcessor(modulePath: string, baseDir: string): string {
+  const resolved = path.resolve(baseDir, modulePath);
+  if (!isWithinDirectory(resolved, baseDir)) {
+    throw new Error(
+      `Custom processor ${modulePath} is outside the models directory ${path.resolve(baseDir)}`
+    );
+  }
+  return resolved;
+}
+
+/**
+ * Import a custom processor once per module and export. Failed loads
+ * are not cached, so a fixed module is picked up on the next run.
+ */
+function loadCustomProcessor(
+  modulePath: string,
+  exportName: string,
+  baseDir: string
+): Promise<CustomStrategyFunction> {
+  const resolved = resolveCustomProcessor(modulePath, baseDir);
+  const key = `${resolved}#${exportName}`;
+
+  if (!customProcessors.has(key)) {
+    const loading = import(pathToFileURL(resolved).href).then(
+      (mod) => {
+        const fn = mod[exportName] ?? mod.default?.[exportName];
+        if (typeof fn !== "function") {
+          throw new Error(
+            `Export "${exportName}" of ${modulePath} is not a function`
+          );
+        }
+        return fn as CustomStrategyFunction;
+      },
+      (error) => {
+        throw new Error(
+          `Failed to load custom processor ${modulePath}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    );
+    loading.catch(() => customProcessors.delete(key));
+    customProcessors.set(key, loading);
+  }
+
+  return customProcessors.get(key)!;
+}
+
+/**
+ * Strategies shipped with the package
+ */
+export const BUILTIN_STRATEGIES: StrategyDefinition[] = [
+  defineStrategy({
+    name: "clarify",
+    description: "Score clarity and suggest replacements for vague words",
+    configSchema: clarifyConfigSchema,
+    run(content, config) {
+      const clarityScan = analyzeClarity(content, config);
+      const clarifiedContent = improveClarity(content, config);
+
+      return {
+        label: "CLARIFICATION METADATA",
+        text: `Original length: ${content.length} chars\nClarity score: ${clarityScan.score}/100\nIssues found: ${clarityScan.issues.length}\n[CLARIFIED CONTENT]\n${clarifiedContent}`,
+        output: {
+          type: "clarify",
+          originalLength: content.length,
+          clarityScore: clarityScan.score,
+          issues: clarityScan.issues,
+          clarifiedContent,
+        },
+      };
+    },
+  }),
+  defineStrategy({
+    name: "search",
+    description: "Extract keywords and recommend search queries",
+    configSchema: searchConfigSchema,
+    run(content, config) {
+      const keywords = extractKeywords(content, config);
+      const searchQueries = keywords.slice(0, config.maxSearches);
+
+      return {
+        label: "SEARCH ENHANCEMENT",
+        text: `Extracted keywords: ${keywords.join(", ")}\nRecommended searches: ${searchQueries.map((k) => `"${k}"`).join(", ")}`,
+        output: { type: "search", keywords, recommendedSearches: searchQueries },
+      };
+    },
+  }),
+  defineStrategy({
+    name: "analyze",
+    description: "Word, sentence and paragraph metrics with a complexity rating",
+    configSchema: analyzeConfigSchema,
+    run(content) {
+      const metrics = {
+        wordCount: content.split(/\s+/).length,
+        sentenceCount: content.split(/[.!?]+/).length,
+        paragraphCount: content.split(/\n\n+/).length,
+        averageWordLength: calculateAvgWordLength(content),
+        complexity: assessComplexity(content),
+      };
+
+      return {
+        label: "CONTENT ANALYSIS",
+        text: JSON.stringify(metrics, null, 2),
+        output: { type: "analyze", ...metrics },
+      };
+    },
+  }),
+  defineStrategy({
+    name: "fetch",
+    description: "Detect URLs referenced by the content",
+    configSchema: fetchConfigSchema,
+    run(content, config) {
+      const urls = extractUrls(content, config.maxUrls);
+
+      return {
+        label: "FETCH METADATA",
+        text: `Found URLs: ${urls.length}\nURLs: ${urls.join(", ")}`,
+        output: { type: "fetch", urls },
+      };
+    },
+  }),
+  defineStrategy({
+    name: "custom",
+    description: "Run a function exported by a local module",
+    configSchema: customConfigSchema,
+    /**
+     * `config.processor` is the module path and `config.export` the export
+     * name (default: `default`). The function receives the content and
+     * config and returns either text or an object with structured data.
+     */
+    async run(content, config, { baseDir }) {
+      if (!config.processor) {
+        throw new Error("No custom processor module provided");
+      }
+
+      const processor = await loadCustomProcessor(
+        config.processor,
+        config.export,
+        baseDir
+      );
+      const value = await processor(content, config);
+
+      return typeof value === "string"
+        ? { text: value, output: { type: "custom", text: value } }
+        : { output: { ...value, type: "custom" } };
+    },
+  }),
+];
+
+const strategyRegistry = new Map<string, StrategyDefinition>(
+  BUILTIN_STRATEGIES.map((strategy) => [strategy.name, strategy])
+);
+
+/**
+ * Register a strategy implementation that models can then reference by
+ * name. Registering an existing name replaces it.
+ */
+export function registerStrategy(strategy: StrategyDefinition): void {
+  strategyRegistry.set(strategy.name, strategy);
+}
+
+export function getStrategy(name: string): StrategyDefinition | undefined {
+  return strategyRegistry.get(name);
+}
+
+export function listStrategies(): StrategyDefinition[] {
+  return Array.from(strategyRegistry.values());
+}
+
+function isStrategyDefinition(value: unknown): value is StrategyDefinition {
+  return (
+    !!value &&
+    typeof (value as StrategyDefinition).name === "string" &&
+    typeof (value as StrategyDefinition).run === "function"
+  );
+}
+
+/**
+ * Import every JavaScript module (`.js`, `.mjs`, `.cjs`) in a plugins
+ * directory; TypeScript plugins must be compiled first. A plugin exports a
+ * strategy definition (or an array of them) as its default export or as
+ * `strategies`. Returns the loaded definitions; modules that fail to load
+ * or export nothing usable are logged and skipped, as is a path that is
+ * not a readable directory. Never rejects.
+ */
+export async function loadStrategyPlugins(
+  directory: string,
+  logger: Logger = createLogger()
+): Promise<StrategyDefinition[]> {
+  if (!fs.existsSync(directory)) {
+    return [];
+  }
+
+  let files: string[];
+  try {
+    if (!fs.statSync(directory).isDirectory()) {
+      logger.error(`Strategy plugins path is not a directory: ${directory}`);
+      return [];
+    }
+    files = fs
+      .readdirSync(directory)
+      .filter((file) => /\.(js|mjs|cjs)$/.test(file))
+      .sort();
+  } catch (error) {
+    logger.error(`Cannot read strategy plugins directory ${directory}:`, error);
+    return [];
+  }
+
+  const loaded: StrategyDefinition[] = [];
+
+  for (const file of files) {
+    try {
+      const mod = await import(pathToFileURL(path.join(directory, file)).href);
+      const exported = mod.strategies ?? mod.default;
+      const definitions = (
+        Array.isArray(exported) ? exported : [exported]
+      ).filter(isStrategyDefinition);
+
+      if (definitions.length === 0) {
+        logger.warn(`Strategy plugin ${file} does not export a strategy`);
+      }
+      loaded.push(...definitions);
+    } catch (error) {
+      logger.error(`Failed to load strategy plugin ${file}:`, error);
+    }
+  }
+
+  return loaded;
+}
@@ -2,6 +2,8 @@
  * Types for the Context MCP Server
  */
 
+import type { ZodType } from "zod";
+
 export interface ContextItem {
   id: string;
   title: string;
@@ -10,11 +12,58 @@ export interface ContextItem {
   createdAt: number;
   updatedAt: number;
   tags: string[];
+  /** Derived strategy output; `content` always holds the original text */
+  annotations?: ContextAnnotation[];
+}
+
+/**
+ * Output of one pre-processing strategy, kept next to the original content
+ */
+export interface ContextAnnotation {
+  strategy: string;
+  label: string;
+  /** Rendered into the content by the annotated and rendered views */
+  text: string;
+  /** Structured output, so stored annotations can be read without parsing `text` */
+  output: StrategyOutput;
+}
+
+/**
+ * How a context is returned by load_context:
+ * - raw: original content only
+ * - annotated: original content plus annotations
+ * - rendered: annotations and content merged into one text
+ */
+export type ContextView = "raw" | "annotated" | "rendered";
+
+/**
+ * Persistence backend for contexts
+ */
+export interface StorageAdapter {
+  save(context: ContextItem): void;
+  load(contextId: string): ContextItem | null;
+  list(): ContextItem[];
+  delete(contextId: string): boolean;
+  search(tags?: string[], limit?: number, offset?: number): ContextItem[];
+  /** Number of contexts with any of the tags; counted from `search` when missing */
+  count?(tags?: string[]): number;
+}
+
+/**
+ * Selects a registered storage backend by `type`; remaining fields are
+ * passed to the backend factory
+ */
+export interface StorageConfig {
+  type: string;
+  directory?: string;
+  filename?: string;
+  [option: string]: unknown;
 }
 
 export interface PreProcessingStrategy {
   name: string;
-  type: "clarify" | "search" | "analyze" | "fetch" | "custom";
+  /** Registered strategy to run; defaults to `name` */
+  type?: string;
   enabled: boolean;
   config?: Record<string, unknown>;
 }
@@ -23,7 +72,33 @@ export interface ContextModel {
   name: string;
   description: string;
   strategies: PreProcessingStrategy[];
-  storageLocation?: string;
+  /**
+   * Where contexts saved with this model are stored: a directory for the
+   * file backend, or a storage backend configuration. Relative paths
+   * resolve against the models file's directory.
+   */
+  storageLocation?: string | StorageConfig;
+  /**
+   * Name of a model to inherit strategies from. Entries with the same name
+   * as an inherited strategy override its fields; others are appended.
+   */
+  extends?: string;
+}
+
+export interface ResolvedStrategy extends PreProcessingStrategy {
+  /** Model that defined (or last overrode) this entry */
+  origin: string;
+  /** Model whose entry this one overrides */
+  overrides?: string;
+}
+
+/**
+ * A model with its inheritance chain applied
+ */
+export interface ResolvedModel extends ContextModel {
+  strategies: ResolvedStrategy[];
+  /** The model followed by its ancestors, nearest first */
+  inheritance: string[];
 }
 
 export interface SaveContextRequest {
@@ -32,6 +107,34 @@ export interface SaveContextRequest {
   tags?: string[];
   metadata?: Record<string, unknown>;
   modelName?: string;
+  /** Recorded in the revision history */
+  author?: string;
+  source?: string;
+}
+
+export interface SaveContextInput extends SaveContextRequest {
+  id?: string;
+}
+
+/**
+ * How save and update treat a `modelName` that matches no model:
+ * `strict` rejects the request, `lenient` saves without pre-processing
+ * and returns a warning
+ */
+export type UnknownModelMode = "strict" | "lenient";
+
+export interface StrategyFailure {
+  strategy: string;
+  error: string;
+}
+
+export interface SavedContext extends ContextItem {
+  processedContent?: string;
+  appliedStrategies: string[];
+  strategyResults: StrategyResult[];
+  /** Strategies that ran but failed; the context is saved regardless */
+  failedStrategies: StrategyFailure[];
+  warnings?: string[];
 }
 
 export interface SaveContextResponse {
@@ -39,11 +142,66 @@ export interface SaveContextResponse {
   contextId: string;
   processedContent?: string;
   appliedStrategies: string[];
+  strategyResults: StrategyResult[];
+  failedStrategies: StrategyFailure[];
+  warnings?: string[];
   timestamp: number;
 }
 
+export interface UpdateContextRequest {
+  contextId: string;
+  title?: string;
+  content?: string;
+  /** Replaces all tags; applied before addTags/removeTags */
+  tags?: string[];
+  addTags?: string[];
+  removeTags?: string[];
+  /** Merged into existing metadata; keys set to null are removed */
+  metadata?: Record<string, unknown>;
+  /** Re-run this model's strategies on the (new) content */
+  modelName?: string;
+  /** Recorded in the revision history */
+  author?: string;
+  source?: string;
+}
+
+export interface UpdateContextResponse {
+  success: boolean;
+  context: ContextItem;
+  processedContent?: string;
+  appliedStrategies: string[];
+  strategyResults: StrategyResult[];
+  failedStrategies: StrategyFailure[];
+  warnings?: string[];
+  timestamp: number;
+}
+
+export interface ContextRevision {
+  revision: number;
+  contextId: string;
+  timestamp: number;
+  author?: string;
+  source?: string;
+  summary: string;
+  snapshot: ContextItem;
+}
+
+export interface RevisionRetention {
+  /** Keep only the last N revisions per context; 0 keeps any number */
+  maxRevisions?: number;
+  /** Drop revisions older than N days (the latest is always kept) */
+  maxAgeDays?: number;
+}
+
+export interface RestoreRevisionRequest {
+  contextId: string;
+  revision: number;
+  author?: string;
+}
+
 export interface LoadContextRequest {
   contextId: string;
+  view?: ContextView;
 }
 
 export interface LoadContextResponse {
@@ -51,8 +209,17 @@ export interface LoadContextResponse {
   relatedContexts: ContextItem[];
 }
 
+export type ContextSortField = "createdAt" | "updatedAt" | "title" | "relevance";
+
+export type SortOrder = "asc" | "desc";
+
 export interface ListContextsRequest {
   tags?: string[];
+  query?: string;
+  text?: string;
+  sortBy?: ContextSortField;
+  order?: SortOrder;
+  cursor?: string;
   limit?: number;
   offset?: number;
 }
@@ -60,11 +227,227 @@ export interface ListContextsRequest {
 export interface ListContextsResponse {
   contexts: ContextItem[];
   total: number;
+  nextCursor?: string;
+}
+
+export interface SearchContextsRequest {
+  query: string;
+  tags?: string[];
+  limit?: number;
+}
+
+export interface SearchResult {
+  contextId: string;
+  title: string;
+  tags: string[];
+  score: number;
+  snippet: string;
+}
+
+export interface SearchContextsResponse {
+  query: string;
+  results: SearchResult[];
+}
+
+export interface ModelValidationError {
+  /** Name of the model, when it has one */
+  model?: string;
+  /** Location in the models file, e.g. `models[1].strategies[0].config.maxKeywords` */
+  path: string;
+  message: string;
+}
+
+export interface ModelValidationResult {
+  valid: boolean;
+  /** Models that passed validation */
+  models: ContextModel[];
+  errors: ModelValidationError[];
+}
+
+export interface ModelReloadResult {
+  /** False when the file was invalid and the previous models were kept */
+  reloaded: boolean;
+  /** Names of the models in effect after the reload */
+  models: string[];
+  errors: ModelValidationError[];
+}
+
+/** A stored context was created, updated (including restores) or deleted */
+export interface ContextChange {
+  type: "created" | "updated" | "deleted";
+  /** The new state, or the deleted context */
+  context: ContextItem;
+  /** The state before an update */
+  previous?: ContextItem;
+}
+
+export interface ModelSummary {
+  name: string;
+  description: string;
+  /** Resolved strategy names, including inherited ones */
+  strategies: string[];
+  extends?: string;
+  /** Defined in the models file or the defaults; cannot be changed or deleted */
+  builtIn: boolean;
+}
+
+export interface UpdateModelRequest {
+  name: string;
+  description?: string;
+  /** Replaces the model's strategy list */
+  strategies?: PreProcessingStrategy[];
+  storageLocation?: string | StorageConfig;
+  extends?: string;
+}
+
+export interface ClarifyOutput {
+  type: "clarify";
+  originalLength: number;
+  clarityScore: number;
+  issues: string[];
+  clarifiedContent: string;
+}
+
+export interface SearchOutput {
+  type: "search";
+  keywords: string[];
+  recommendedSearches: string[];
+}
+
+export interface AnalyzeOutput {
+  type: "analyze";
+  wordCount: number;
+  sentenceCount: number;
+  paragraphCount: number;
+  averageWordLength: number;
+  complexity: "low" | "medium" | "high";
+}
+
+export interface FetchOutput {
+  type: "fetch";
+  urls: string[];
+}
+
+export interface CustomOutput {
+  type: "custom";
+  [key: string]: unknown;
+}
+
+/**
+ * Function exported by a custom strategy module
+ */
+export type CustomStrategyFunction = (
+  content: string,
+  config: Record<string, unknown>
+) => string | Record<string, unknown> | Promise<string | Record<string, unknown>>;
+
+/**
+ * Structured output of a strategy, discriminated by `type`
+ */
+export type StrategyOutput =
+  | ClarifyOutput
+  | SearchOutput
+  | AnalyzeOutput
+  | FetchOutput
+  | CustomOutput;
+
+/**
+ * What a strategy run produces: structured output plus the text shown in
+ * the annotation (`label` defaults to the upper-cased name of the model's
+ * strategy entry, `text` to the output as JSON)
+ */
+export interface StrategyRun {
+  output: StrategyOutput;
+  label?: string;
+  text?: string;
+}
+
+export interface StrategyContext {
+  /** Directory that relative paths in strategy config resolve against */
+  baseDir: string;
+}
+
+/**
+ * A named strategy implementation that models reference by name
+ */
+export interface StrategyDefinition {
+  name: string;
+  description?: string;
+  /** Validates `config` and fills in defaults before `run` is called */
+  configSchema?: ZodType;
+  run(
+    content: string,
+    config: Record<string, unknown>,
+    context: StrategyContext
+  ): StrategyRun | Promise<StrategyRun>;
+}
+
+export interface StrategyResult {
+  strategy: string;
+  output: StrategyOutput;
 }
 
 export interface PreProcessingResult {
   strategy: string;
   processed: boolean;
   result?: string;
+  output?: StrategyOutput;
+  annotation?: ContextAnnotation;
   error?: string;
 }
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type TransportType = "stdio" | "http";
+
+/**
+ * Server settings after defaults, the config file, environment variables
+ * and CLI flags have been applied
+ */
+export interface ServerConfig {
+  /** Registered storage backend: `file`, `sqlite`, `memory` or a custom type */
+  storageType: string;
+  storageDir: string;
+  /** Database file of the `sqlite` backend */
+  storageFile: string;
+  modelsPath: string;
+  logLevel: LogLevel;
+  transport: TransportType;
+  /** Interface the HTTP transport binds to */
+  host: string;
+  /** Port of the HTTP transport */
+  port: number;
+  unknownModel: UnknownModelMode;
+  /** API tokens required by the HTTP transport; unset allows every client */
+  tokensFile?: string;
+  /** Directory of strategy plugin modules; unset imports none */
+  pluginsDir?: string;
+  /** Revisions kept per context; 0 keeps any number */
+  maxRevisions: number;
+  /** Drop revisions older than this many days; unset keeps them regardless of age */
+  maxAgeDays?: number;
+}
+
+/** Where a configuration value came from, lowest precedence first */
+export type ConfigSource = "default" | "file" | "env" | "cli";
+
+export interface ResolvedConfig {
+  config: ServerConfig;
+  sources: Record<keyof ServerConfig, ConfigSource>;
+  /** The config file that was read, if any */
+  configFile?: string;
+}
+
+/**
+ * What an API token may do: read contexts and models, write (save, update,
+ * restore) contexts, delete contexts, or administer models
+ */
+export type TokenScope = "read" | "write" | "delete" | "admin";
+
+/** An entry of the tokens file */
+export interface ApiToken {
+  /** Identifies the client in logs and session checks */
+  name: string;
+  token: string;
+  scopes: TokenScope[];
+}
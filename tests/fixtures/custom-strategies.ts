@@ -0,0 +1,29 @@
+/**
+ * Custom strategy modules used by scenario 11
+ */
+
+export function headings(content: string): Record<string, unknown> {
+  return {
+    headings: content
+      .split("\n")
+      .filter((line) => line.startsWith("#"))
+      .map((line) => line.replace(/^#+\s*/, "")),
+  };
+}
+
+export async function shout(
+  content: string,
+  config: Record<string, unknown>
+): Promise<string> {
+  return `${content.toUpperCase()}${config.suffix || ""}`;
+}
+
+export function explode(): string {
+  throw new Error("processor exploded");
+}
+
+export const notAFunction = 42;
+
+export default function wordCount(content: string): Record<string, unknown> {
+  return { words: content.split(/\s+/).filter(Boolean).length };
+}
@@ -0,0 +1,2 @@
+// Tests run as CommonJS, where src/native-require.ts (import.meta) cannot compile
+module.exports = { nativeRequire: require };
@@ -0,0 +1,5 @@
+/**
+ * Plugin without a usable export, skipped by the loader
+ */
+
+exports.value = 1;
@@ -0,0 +1,18 @@
+/**
+ * Strategy plugin used by scenario 12
+ */
+
+/** @type {import("../../../src/types").StrategyDefinition} */
+const readingTime = {
+  name: "reading_time",
+  description: "Estimate reading time at 200 words per minute",
+  run(content, config) {
+    const wordsPerMinute = Number(config.wordsPerMinute) || 200;
+    const words = content.split(/\s+/).filter(Boolean).length;
+    return {
+      output: { type: "custom", minutes: Math.ceil(words / wordsPerMinute) },
+    };
+  },
+};
+
+module.exports = readingTime;
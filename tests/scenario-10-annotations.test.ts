@@ -0,0 +1,155 @@
+/**
+ * Test Scenario 10: Non-Destructive Pre-Processing
+ *
+ * This test scenario verifies that strategies never overwrite content:
+ * 1. The original content is stored as given; strategy output becomes annotations
+ * 2. Strategies run side by side instead of nesting each other's banners
+ * 3. load returns raw, annotated or rendered views
+ * 4. Annotations follow updates and survive every storage backend
+ *
+ * Covers: ContextProcessor, ContextPreprocessor, renderAnnotations, renderContext
+ */
+
+import * as path from "path";
+import { ContextProcessor } from "../src/processor";
+import { ContextPreprocessor, renderAnnotations } from "../src/preprocessor";
+import { MemoryContextStorage } from "../src/storage";
+import { SqliteContextStorage } from "../src/sqlite-storage";
+
+describe("Scenario 10: Non-Destructive Pre-Processing", () => {
+  const content = "The system basically works well. See https://example.com for details.";
+  let processor: ContextProcessor;
+
+  beforeEach(() => {
+    processor = new ContextProcessor({
+      storage: new MemoryContextStorage(),
+      modelsPath: path.join(__dirname, "..", "context-models.json"),
+    });
+  });
+
+  describe("10.1 Stored Content", () => {
+    test("should keep the original content and store annotations", async () => {
+      // Act
+      const saved = await processor.save({
+        title: "Raw",
+        content,
+        modelName: "comprehensive",
+      });
+      const loaded = processor.load(saved.id)!;
+
+      // Assert
+      expect(loaded.content).toBe(content);
+      expect(loaded.annotations!.map((a) => a.strategy)).toEqual([
+        "clarify",
+        "analyze",
+        "search",
+      ]);
+      expect(loaded.annotations![1].label).toBe("CONTENT ANALYSIS");
+      expect(loaded.annotations![1].text).not.toContain(content);
+      expect(loaded.annotations![1].output).toMatchObject({ type: "analyze", wordCount: 9 });
+    });
+
+    test("should not add annotations without a model", async () => {
+      const saved = await processor.save({ title: "Plain", content });
+      expect(processor.load(saved.id)!.annotations).toBeUndefined();
+    });
+  });
+
+  describe("10.2 Side-By-Side Strategies", () => {
+    test("should run every strategy on the original content", async () => {
+      // Arrange
+      const preprocessor = new ContextPreprocessor();
+
+      // Act
+      const { processed, annotations } = await preprocessor.processContent(
+        content,
+        [
+          { name: "clarify", type: "clarify", enabled: true },
+          { name: "analyze", type: "analyze", enabled: true },
+          { name: "fetch", type: "fetch", enabled: true },
+        ]
+      );
+
+      // Assert
+      expect(annotations).toHaveLength(3);
+      expect(processed.match(/\[ORIGINAL CONTENT\]/g)).toHaveLength(1);
+      expect(processed.endsWith(`[ORIGINAL CONTENT]\n${content}`)).toBe(true);
+      expect(annotations[1].text).not.toContain("CLARIFICATION");
+    });
+
+    test("should render plain content without annotations", () => {
+      expect(renderAnnotations(content, [])).toBe(content);
+    });
+  });
+
+  describe("10.3 Views", () => {
+    test("should return raw, annotated and rendered views", async () => {
+      // Arrange
+      const saved = await processor.save(
+        { title: "Views", content },
+        "analysis"
+      );
+
+      // Act
+      const raw = processor.load(saved.id, "raw")!;
+      const annotated = processor.load(saved.id, "annotated")!;
+      const rendered = processor.load(saved.id, "rendered")!;
+
+      // Assert
+      expect(raw.content).toBe(content);
+      expect(raw.annotations).toBeUndefined();
+      expect(annotated.content).toBe(content);
+      expect(annotated.annotations).toHaveLength(1);
+      expect(rendered.annotations).toBeUndefined();
+      expect(rendered.content).toContain("[CONTENT ANALYSIS]");
+      expect(rendered.content).toBe(saved.processedContent);
+    });
+  });
+
+  describe("10.4 Updates and Storage", () => {
+    test("should keep annotations for metadata-only updates", async () => {
+      // Arrange
+      const saved = await processor.save({ title: "T", content }, "analysis");
+
+      // Act
+      const updated = await processor.update({ contextId: saved.id, title: "T2" });
+
+      // Assert
+      expect(updated!.annotations).toHaveLength(1);
+    });
+
+    test("should drop stale annotations when content changes without a model", async () => {
+      // Arrange
+      const saved = await processor.save({ title: "T", content }, "analysis");
+
+      // Act
+      const updated = await processor.update({
+        contextId: saved.id,
+        content: "Completely new text.",
+      });
+
+      // Assert
+      expect(updated!.annotations).toBeUndefined();
+      expect(processor.load(saved.id)!.annotations).toBeUndefined();
+    });
+
+    test("should persist annotations in SQLite", async () => {
+      // Arrange
+      const storage = new SqliteContextStorage(":memory:");
+      const sqliteProcessor = new ContextProcessor({
+        storage,
+        modelsPath: path.join(__dirname, "..", "context-models.json"),
+      });
+
+      // Act
+      const saved = await sqliteProcessor.save({ title: "T", content }, "analysis");
+      const loaded = storage.load(saved.id)!;
+
+      // Assert
+      expect(loaded.content).toBe(content);
+      expect(loaded.annotations).toEqual(saved.annotations);
+      expect(loaded.annotations![0].output.type).toBe("analyze");
+      storage.close();
+    });
+  });
+});
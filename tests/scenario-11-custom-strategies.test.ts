@@ -0,0 +1,202 @@
+/**
+ * Test Scenario 11: Custom Strategies
+ *
+ * This test scenario verifies custom strategies backed by local modules:
+ * 1. Named and default exports receive the content and config
+ * 2. Text and structured return values become annotations and output
+ * 3. Load, export and runtime errors are reported in the result
+ * 4. Module paths in context-models.json resolve next to that file and may not leave its directory
+ *
+ * Covers: ContextPreprocessor.customStrategy, ContextProcessor with custom models
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { ContextPreprocessor } from "../src/preprocessor";
+import { ContextProcessor } from "../src/processor";
+import { MemoryContextStorage } from "../src/storage";
+import { PreProcessingStrategy } from "../src/types";
+import { TestStorageManager } from "./test-utils";
+
+const custom = (config: Record<string, unknown>): PreProcessingStrategy => ({
+  name: "my_custom",
+  type: "custom",
+  enabled: true,
+  config,
+});
+
+describe("Scenario 11: Custom Strategies", () => {
+  const fixtures = path.join(__dirname, "fixtures");
+  let preprocessor: ContextPreprocessor;
+
+  beforeEach(() => {
+    preprocessor = new ContextPreprocessor(fixtures);
+  });
+
+  describe("11.1 Running Custom Processors", () => {
+    test("should call a named export with content and config", async () => {
+      // Act
+      const { results, annotations } = await preprocessor.processContent(
+        "hello",
+        [custom({ processor: "./custom-strategies.ts", export: "shout", suffix: "!" })]
+      );
+
+      // Assert
+      expect(results[0]).toMatchObject({ strategy: "custom", processed: true });
+      expect(results[0].output).toEqual({ type: "custom", text: "HELLO!" });
+      expect(annotations[0]).toEqual({
+        strategy: "custom",
+        label: "MY_CUSTOM",
+        text: "HELLO!",
+        output: { type: "custom", text: "HELLO!" },
+      });
+    });
+
+    test("should use the default export and keep structured output", async () => {
+      // Act
+      const { results } = await preprocessor.processContent("one two three", [
+        custom({ processor: "./custom-strategies.ts" }),
+      ]);
+
+      // Assert
+      expect(results[0].output).toEqual({ type: "custom", words: 3 });
+    });
+  });
+
+  describe("11.2 Error Reporting", () => {
+    test("should report modules that fail to load", async () => {
+      // Act
+      const { results } = await preprocessor.processContent("x", [
+        custom({ processor: "./does-not-exist.js" }),
+      ]);
+
+      // Assert
+      expect(results[0].processed).toBe(false);
+      expect(results[0].error).toContain(
+        "Failed to load custom processor ./does-not-exist.js"
+      );
+    });
+
+    test("should report exports that are not functions", async () => {
+      // Act
+      const { results } = await preprocessor.processContent("x", [
+        custom({ processor: "./custom-strategies.ts", export: "notAFunction" }),
+      ]);
+
+      // Assert
+      expect(results[0].error).toBe(
+        'Export "notAFunction" of ./custom-strategies.ts is not a function'
+      );
+    });
+
+    test("should report runtime errors and continue with other strategies", async () => {
+      // Act
+      const { results } = await preprocessor.processContent("x", [
+        custom({ processor: "./custom-strategies.ts", export: "explode" }),
+        { name: "analyze", type: "analyze", enabled: true },
+      ]);
+
+      // Assert
+      expect(results[0]).toMatchObject({
+        processed: false,
+        error: "processor exploded",
+      });
+      expect(results[1].processed).toBe(true);
+    });
+
+    test("should require a processor module", async () => {
+      // Act
+      const { results } = await preprocessor.processContent("x", [custom({})]);
+
+      // Assert
+      expect(results[0].error).toBe("No custom processor module provided");
+    });
+  });
+
+  describe("11.3 Models File", () => {
+    let storageManager: TestStorageManager;
+
+    beforeEach(() => {
+      storageManager = new TestStorageManager();
+    });
+
+    afterEach(() => {
+      storageManager.cleanup();
+    });
+
+    test("should resolve processor paths relative to the models file", async () => {
+      // Arrange
+      const dir = storageManager.getStorageDir();
+      fs.mkdirSync(path.join(dir, "modules"), { recursive: true });
+      fs.copyFileSync(
+        path.join(fixtures, "custom-strategies.ts"),
+        path.join(dir, "modules", "outline.ts")
+      );
+      const modelsPath = path.join(dir, "context-models.json");
+      fs.writeFileSync(
+        modelsPath,
+        JSON.stringify({
+          models: [
+            {
+              name: "outline",
+              description: "Extract markdown headings",
+              strategies: [
+                custom({ processor: "./modules/outline.ts", export: "headings" }),
+              ],
+            },
+          ],
+        })
+      );
+      const processor = new ContextProcessor({
+        storage: new MemoryContextStorage(),
+        modelsPath,
+      });
+
+      // Act
+      const saved = await processor.save({
+        title: "Doc",
+        content: "# Intro\ntext\n## Usage\nmore",
+        modelName: "outline",
+      });
+
+      // Assert
+      expect(saved.appliedStrategies).toEqual(["custom"]);
+      expect(saved.strategyResults[0].output).toEqual({
+        type: "custom",
+        headings: ["Intro", "Usage"],
+      });
+    });
+
+    test("should refuse modules outside the models directory", async () => {
+      // Arrange
+      const dir = storageManager.getStorageDir();
+      fs.mkdirSync(dir, { recursive: true });
+      const processor = new ContextProcessor({
+        storage: new MemoryContextStorage(),
+        modelsPath: path.join(dir, "context-models.json"),
+      });
+      const outside = path.join(fixtures, "custom-strategies.ts");
+
+      // Act
+      const ran = await new ContextPreprocessor(dir).processContent("x", [
+        custom({ processor: outside, export: "headings" }),
+      ]);
+
+      // Assert
+      expect(ran.results[0]).toMatchObject({
+        processed: false,
+        error: `Custom processor ${outside} is outside the models directory ${path.resolve(dir)}`,
+      });
+      await expect(
+        processor.createModel({
+          name: "escape",
+          description: "Runs a module from elsewhere",
+          strategies: [custom({ processor: "../../elsewhere.js" })],
+        })
+      ).rejects.toThrow(
+        /^Invalid model "escape": strategies\[0\]\.config\.processor: Custom processor \.\.\/\.\.\/elsewhere\.js is outside/
+      );
+      expect(processor.getModel("escape")).toBeUndefined();
+    });
+  });
+});
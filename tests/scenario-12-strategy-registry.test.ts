@@ -0,0 +1,245 @@
+/**
+ * Test Scenario 12: Strategy Registry
+ *
+ * This test scenario verifies that strategy execution is driven by a registry:
+ * 1. Built-in strategies are registered by name
+ * 2. Strategies registered from code can be referenced by models
+ * 3. Per-instance registrations take precedence over global ones
+ * 4. JavaScript plugins are loaded from a directory
+ *
+ * Covers: strategies.ts registry, ContextPreprocessor, ContextProcessor plugins
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { ContextPreprocessor } from "../src/preprocessor";
+import { ContextProcessor } from "../src/processor";
+import { MemoryContextStorage } from "../src/storage";
+import {
+  getStrategy,
+  listStrategies,
+  loadStrategyPlugins,
+  registerStrategy,
+} from "../src/strategies";
+import { StrategyDefinition } from "../src/types";
+import { TestStorageManager } from "./test-utils";
+
+const echo = (name: string, text: string): StrategyDefinition => ({
+  name,
+  run: () => ({ text, output: { type: "custom", text } }),
+});
+
+describe("Scenario 12: Strategy Registry", () => {
+  const pluginsDir = path.join(__dirname, "fixtures", "strategy-plugins");
+
+  describe("12.1 Built-in Strategies", () => {
+    test("should register the built-in strategies by name", () => {
+      expect(listStrategies().map((s) => s.name)).toEqual(
+        expect.arrayContaining(["clarify", "search", "analyze", "fetch", "custom"])
+      );
+      expect(getStrategy("analyze")!.description).toBeDefined();
+    });
+
+    test("should report strategies that are not registered", async () => {
+      // Act
+      const { results } = await new ContextPreprocessor().processContent("x", [
+        { name: "missing", enabled: true },
+      ]);
+
+      // Assert
+      expect(results[0]).toEqual({
+        strategy: "missing",
+        processed: false,
+        error: 'Unknown strategy "missing"',
+      });
+    });
+  });
+
+  describe("12.2 Registering From Code", () => {
+    test("should run a globally registered strategy referenced by name", async () => {
+      // Arrange
+      registerStrategy(echo("global_echo", "from global"));
+
+      // Act
+      const { results, annotations } = await new ContextPreprocessor().processContent(
+        "content",
+        [{ name: "global_echo", enabled: true }]
+      );
+
+      // Assert
+      expect(results[0].processed).toBe(true);
+      expect(annotations[0]).toEqual({
+        strategy: "global_echo",
+        label: "GLOBAL_ECHO",
+        text: "from global",
+        output: { type: "custom", text: "from global" },
+      });
+    });
+
+    test("should prefer strategies registered on the instance", async () => {
+      // Arrange
+      registerStrategy(echo("shared_echo", "global"));
+      const preprocessor = new ContextPreprocessor();
+      preprocessor.registerStrategy(echo("shared_echo", "local"));
+
+      // Act
+      const local = await preprocessor.processContent("x", [
+        { name: "shared_echo", enabled: true },
+      ]);
+      const other = await new ContextPreprocessor().processContent("x", [
+        { name: "shared_echo", enabled: true },
+      ]);
+
+      // Assert
+      expect(local.annotations[0].text).toBe("local");
+      expect(other.annotations[0].text).toBe("global");
+    });
+
+    test("should select the implementation by type when it differs from the name", async () => {
+      // Act
+      const { results, annotations } = await new ContextPreprocessor().processContent(
+        "Read https://example.com",
+        [{ name: "links", type: "fetch", enabled: true }]
+      );
+
+      // Assert
+      expect(results[0].strategy).toBe("fetch");
+      expect(annotations[0].label).toBe("FETCH METADATA");
+    });
+  });
+
+  describe("12.3 Plugins Directory", () => {
+    let storageManager: TestStorageManager;
+
+    beforeEach(() => {
+      storageManager = new TestStorageManager();
+    });
+
+    afterEach(() => {
+      storageManager.cleanup();
+      jest.restoreAllMocks();
+    });
+
+    test("should load strategy definitions and skip unusable modules", async () => {
+      // Arrange
+      const errorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+
+      // Act
+      const loaded = await loadStrategyPlugins(pluginsDir);
+
+      // Assert
+      expect(loaded.map((s) => s.name)).toEqual(["reading_time"]);
+      expect(errorSpy).toHaveBeenCalledWith(
+        "Strategy plugin not-a-strategy.cjs does not export a strategy"
+      );
+      expect(await loadStrategyPlugins(path.join(pluginsDir, "missing"))).toEqual([]);
+    });
+
+    test("should only import JavaScript modules", async () => {
+      // Arrange
+      const dir = storageManager.getStorageDir();
+      fs.mkdirSync(dir, { recursive: true });
+      fs.copyFileSync(path.join(pluginsDir, "reading-time.cjs"), path.join(dir, "timed.cjs"));
+      fs.writeFileSync(path.join(dir, "typed.ts"), "export default {};");
+      const errorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+
+      // Act
+      const loaded = await loadStrategyPlugins(dir);
+
+      // Assert
+      expect(loaded.map((s) => s.name)).toEqual(["reading_time"]);
+      expect(errorSpy).not.toHaveBeenCalled();
+    });
+
+    test("should skip a plugins path that is not a directory", async () => {
+      // Arrange
+      const errorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+      const file = path.join(pluginsDir, "reading-time.cjs");
+
+      // Act
+      const loaded = await loadStrategyPlugins(file);
+
+      // Assert
+      expect(loaded).toEqual([]);
+      expect(errorSpy).toHaveBeenCalledWith(
+        `Strategy plugins path is not a directory: ${file}`
+      );
+    });
+
+    test("should let models reference plugin strategies", async () => {
+      // Arrange
+      jest.spyOn(console, "error").mockImplementation(() => {});
+      const dir = storageManager.getStorageDir();
+      fs.mkdirSync(dir, { recursive: true });
+      const modelsPath = path.join(dir, "context-models.json");
+      fs.writeFileSync(
+        modelsPath,
+        JSON.stringify({
+          models: [
+            {
+              name: "timed",
+              description: "Reading time",
+              strategies: [
+                { name: "reading_time", enabled: true, config: { wordsPerMinute: 2 } },
+              ],
+            },
+          ],
+        })
+      );
+      const processor = new ContextProcessor({
+        storage: new MemoryContextStorage(),
+        modelsPath,
+        pluginsDir,
+      });
+
+      // Act
+      const saved = await processor.save({
+        title: "Timed",
+        content: "one two three four five",
+        modelName: "timed",
+      });
+
+      // Assert
+      expect(saved.appliedStrategies).toEqual(["reading_time"]);
+      expect(saved.strategyResults[0].output).toEqual({ type: "custom", minutes: 3 });
+      expect(saved.annotations![0].text).toBe('{\n  "minutes": 3\n}');
+    });
+
+    test("should only import plugins from a configured directory", async () => {
+      // Arrange
+      const dir = storageManager.getStorageDir();
+      fs.mkdirSync(path.join(dir, "strategies"), { recursive: true });
+      fs.copyFileSync(
+        path.join(pluginsDir, "reading-time.cjs"),
+        path.join(dir, "strategies", "reading-time.cjs")
+      );
+      // A file where a plugins directory might be expected must not break saving
+      fs.writeFileSync(path.join(dir, "plugins"), "");
+      jest.spyOn(console, "error").mockImplementation(() => {});
+      const create = (options: { pluginsDir?: string } = {}) =>
+        new ContextProcessor({
+          storage: new MemoryContextStorage(),
+          modelsPath: path.join(dir, "missing.json"),
+          ...options,
+        });
+
+      // Act
+      const withoutPlugins = await create().validateModels({
+        content: JSON.stringify({
+          models: [
+            { name: "timed", description: "", strategies: [{ name: "reading_time", enabled: true }] },
+          ],
+        }),
+      });
+      const broken = await create({ pluginsDir: path.join(dir, "plugins") }).save({
+        title: "Plain",
+        content: "text",
+      });
+
+      // Assert
+      expect(withoutPlugins.valid).toBe(false);
+      expect(JSON.stringify(withoutPlugins.errors)).toContain('Unknown strategy \\"reading_time\\"');
+      expect(broken.title).toBe("Plain");
+    });
+  });
+});
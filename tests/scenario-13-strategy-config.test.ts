@@ -0,0 +1,154 @@
+/**
+ * Test Scenario 13: Strategy Configuration
+ *
+ * This test scenario verifies that built-in strategies honor their config:
+ * 1. Search: maxKeywords, maxSearches, minWordLength and stopwords
+ * 2. Clarify: thresholds, vague words and replacement rules
+ * 3. Fetch: URL limit
+ * 4. Invalid config is rejected with the offending path
+ *
+ * Covers: built-in strategy config schemas, ContextPreprocessor validation
+ */
+
+import * as path from "path";
+import { ContextPreprocessor } from "../src/preprocessor";
+import { ContextProcessor } from "../src/processor";
+import { MemoryContextStorage } from "../src/storage";
+import { PreProcessingStrategy } from "../src/types";
+
+describe("Scenario 13: Strategy Configuration", () => {
+  let preprocessor: ContextPreprocessor;
+
+  const run = async (
+    type: string,
+    content: string,
+    config?: Record<string, unknown>
+  ) => {
+    const strategy: PreProcessingStrategy = { name: type, type, enabled: true, config };
+    const { results } = await preprocessor.processContent(content, [strategy]);
+    return results[0];
+  };
+
+  const output = async (
+    type: string,
+    content: string,
+    config?: Record<string, unknown>
+  ): Promise<any> => (await run(type, content, config)).output;
+
+  beforeEach(() => {
+    preprocessor = new ContextPreprocessor();
+  });
+
+  describe("13.1 Search Strategy", () => {
+    const content =
+      "alpha alpha alpha bravo bravo charlie delta echo foxtrot golf hotel india juliet kilo";
+
+    test("should limit keywords and searches", async () => {
+      // Act
+      const result = await output("search", content, {
+        maxKeywords: 4,
+        maxSearches: 2,
+        minWordLength: 4,
+      });
+
+      // Assert
+      expect(result.keywords).toEqual(["alpha", "bravo", "charlie", "delta"]);
+      expect(result.recommendedSearches).toEqual(["alpha", "bravo"]);
+    });
+
+    test("should use minimum word length and custom stopwords", async () => {
+      // Act
+      const result = await output("search", content, {
+        minWordLength: 6,
+        stopwords: ["Charlie"],
+      });
+
+      // Assert
+      expect(result.keywords).toEqual(["foxtrot", "juliet"]);
+    });
+
+    test("should honor maxKeywords from the models file", async () => {
+      // Arrange
+      const processor = new ContextProcessor({
+        storage: new MemoryContextStorage(),
+        modelsPath: path.join(__dirname, "..", "context-models.json"),
+      });
+
+      // Act
+      const saved = await processor.save({
+        title: "Keywords",
+        content: Array.from({ length: 12 }, (_, i) => `keyword${i}`).join(" "),
+        modelName: "search_optimized",
+      });
+
+      // Assert
+      const searchOutput = saved.strategyResults[0].output as any;
+      expect(searchOutput.keywords).toHaveLength(10);
+      expect(searchOutput.recommendedSearches).toHaveLength(3);
+    });
+  });
+
+  describe("13.2 Clarify Strategy", () => {
+    test("should apply custom vague words, penalty and replacements", async () => {
+      // Act
+      const result = await output("clarify", "It is really, REALLY fast.", {
+        vagueWords: ["really"],
+        vagueWordPenalty: 10,
+        replacements: { really: "very" },
+      });
+
+      // Assert
+      expect(result.clarityScore).toBe(80);
+      expect(result.issues).toEqual(["Found 2 vague word(s)"]);
+      expect(result.clarifiedContent).toBe("It is very, very fast.");
+    });
+
+    test("should use the configured thresholds", async () => {
+      // Arrange
+      const content = "It works. This is it. That is it.";
+
+      // Act
+      const strict = await output("clarify", content, { pronounThreshold: 2 });
+      const lenient = await output("clarify", content);
+
+      // Assert
+      expect(strict.issues).toContain("Multiple ambiguous pronouns detected");
+      expect(lenient.issues).toEqual([]);
+    });
+  });
+
+  describe("13.3 Fetch Strategy", () => {
+    test("should limit the number of URLs", async () => {
+      // Act
+      const result = await output(
+        "fetch",
+        "https://a.example https://b.example https://c.example",
+        { maxUrls: 2 }
+      );
+
+      // Assert
+      expect(result.urls).toEqual(["https://a.example", "https://b.example"]);
+    });
+  });
+
+  describe("13.4 Validation", () => {
+    test("should reject invalid values with the offending path", async () => {
+      // Act
+      const result = await run("search", "content", { maxKeywords: "ten" });
+
+      // Assert
+      expect(result.processed).toBe(false);
+      expect(result.error).toMatch(
+        /^Invalid config for strategy "search": maxKeywords: /
+      );
+    });
+
+    test("should reject unknown options", async () => {
+      // Act
+      const result = await run("fetch", "content", { maxUrl: 3 });
+
+      // Assert
+      expect(result.error).toContain('Unrecognized key: "maxUrl"');
+    });
+  });
+});
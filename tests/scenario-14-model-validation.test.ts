@@ -0,0 +1,220 @@
+/**
+ * Test Scenario 14: Model Validation
+ *
+ * This test scenario verifies validation of context-models.json:
+ * 1. Structural and strategy config errors name the model and path
+ * 2. Valid models keep loading next to invalid ones
+ * 3. Unreadable files fall back to the default models
+ * 4. validateModels checks files and JSON text, including unknown strategies
+ * 5. validateModels only reads files inside the models directory
+ *
+ * Covers: validateModels, loadModels, ContextProcessor.validateModels
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  DEFAULT_MODELS,
+  formatModelError,
+  loadModels,
+  validateModels,
+} from "../src/models";
+import { ContextProcessor } from "../src/processor";
+import { MemoryContextStorage } from "../src/storage";
+import { TestStorageManager } from "./test-utils";
+
+const model = (overrides: Record<string, unknown> = {}) => ({
+  name: "valid",
+  description: "A valid model",
+  strategies: [{ name: "analyze", enabled: true }],
+  ...overrides,
+});
+
+describe("Scenario 14: Model Validation", () => {
+  let storageManager: TestStorageManager;
+  let modelsPath: string;
+
+  const writeModels = (content: unknown) => {
+    fs.writeFileSync(
+      modelsPath,
+      typeof content === "string" ? content : JSON.stringify(content)
+    );
+  };
+
+  beforeEach(() => {
+    storageManager = new TestStorageManager();
+    fs.mkdirSync(storageManager.getStorageDir(), { recursive: true });
+    modelsPath = path.join(storageManager.getStorageDir(), "context-models.json");
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    storageManager.cleanup();
+    jest.restoreAllMocks();
+  });
+
+  describe("14.1 Error Paths", () => {
+    test("should name the model and path of structural errors", () => {
+      // Act
+      const result = validateModels({
+        models: [model(), { name: "broken", strategies: "none" }],
+      });
+
+      // Assert
+      expect(result.valid).toBe(false);
+      expect(result.models.map((m) => m.name)).toEqual(["valid"]);
+      expect(result.errors.map((e) => e.path)).toEqual([
+        "models[1].description",
+        "models[1].strategies",
+      ]);
+      expect(formatModelError(result.errors[0])).toMatch(
+        /^models\[1\] \("broken"\)\.description: /
+      );
+    });
+
+    test("should validate strategy configs", () => {
+      // Act
+      const result = validateModels({
+        models: [
+          model({
+            name: "search",
+            strategies: [
+              { name: "search", enabled: true, config: { maxKeywords: 0 } },
+            ],
+          }),
+        ],
+      });
+
+      // Assert
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]).toMatchObject({
+        model: "search",
+        path: "models[0].strategies[0].config.maxKeywords",
+      });
+    });
+
+    test("should reject unknown strategies and duplicate names", () => {
+      // Act
+      const result = validateModels({
+        models: [
+          model(),
+          model(),
+          model({ name: "other", strategies: [{ name: "x", type: "nope", enabled: true }] }),
+        ],
+      });
+
+      // Assert
+      expect(result.errors.map((e) => [e.path, e.message])).toEqual([
+        ["models[1].name", 'Duplicate model name "valid"'],
+        ["models[2].strategies[0].type", 'Unknown strategy "nope"'],
+      ]);
+    });
+
+    test("should report files without a models array", () => {
+      const result = validateModels({ model: [] });
+      expect(result.errors[0].path).toBe("");
+      expect(result.errors[0].message).toContain("models");
+    });
+  });
+
+  describe("14.2 Loading", () => {
+    test("should keep loading valid models and log invalid ones", () => {
+      // Arrange
+      writeModels({ models: [model(), { name: "broken" }] });
+
+      // Act
+      const models = loadModels(modelsPath);
+
+      // Assert
+      expect(Array.from(models.keys())).toEqual(["valid"]);
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining('Invalid context model: models[1] ("broken")')
+      );
+    });
+
+    test("should fall back to the defaults when the file cannot be parsed", () => {
+      // Arrange
+      writeModels("{ not json");
+
+      // Act
+      const models = loadModels(modelsPath);
+
+      // Assert
+      expect(Array.from(models.keys())).toEqual(DEFAULT_MODELS.map((m) => m.name));
+    });
+
+    test("should accept strategies registered after loading", () => {
+      // Arrange
+      writeModels({ models: [model({ strategies: [{ name: "later", enabled: true }] })] });
+
+      // Act
+      const models = loadModels(modelsPath);
+
+      // Assert
+      expect(models.has("valid")).toBe(true);
+    });
+  });
+
+  describe("14.3 Processor Validation", () => {
+    test("should validate the loaded models file and JSON text", async () => {
+      // Arrange
+      writeModels({ models: [model({ strategies: [{ name: "later", enabled: true }] })] });
+      const processor = new ContextProcessor({
+        storage: new MemoryContextStorage(),
+        modelsPath,
+      });
+
+      // Act
+      const fromFile = await processor.validateModels();
+      const fromText = await processor.validateModels({
+        content: JSON.stringify({ models: [model()] }),
+      });
+      const invalidText = await processor.validateModels({ content: "{" });
+
+      // Assert
+      expect(fromFile.errors[0].message).toBe('Unknown strategy "later"');
+      expect(fromText).toMatchObject({ valid: true, errors: [] });
+      expect(invalidText.errors[0].message).toMatch(/^Invalid JSON: /);
+    });
+
+    test("should accept the bundled models file", async () => {
+      // Arrange
+      const processor = new ContextProcessor({
+        storage: new MemoryContextStorage(),
+        modelsPath: path.join(__dirname, "..", "context-models.json"),
+      });
+
+      // Act
+      const result = await processor.validateModels();
+
+      // Assert
+      expect(result.valid).toBe(true);
+      expect(result.models).toHaveLength(5);
+    });
+
+    test("should only read models files inside the models directory", async () => {
+      // Arrange
+      writeModels({ models: [model()] });
+      fs.writeFileSync(
+        path.join(storageManager.getStorageDir(), "staged-models.json"),
+        JSON.stringify({ models: [model({ name: "staged" })] })
+      );
+      const processor = new ContextProcessor({
+        storage: new MemoryContextStorage(),
+        modelsPath,
+      });
+
+      // Act
+      const staged = await processor.validateModels({ filePath: "staged-models.json" });
+      const outside = processor.validateModels({ filePath: "/etc/passwd" });
+      const parent = processor.validateModels({ filePath: "../context-models.json" });
+
+      // Assert
+      expect(staged).toMatchObject({ valid: true, models: [{ name: "staged" }] });
+      await expect(outside).rejects.toThrow(
+        "Models file /etc/passwd is outside the models directory"
+      );
+      await expect(parent).rejects.toThrow(/is outside the models directory/);
+    });
+  });
+});
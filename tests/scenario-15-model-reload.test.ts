@@ -0,0 +1,115 @@
+/**
+ * Test Scenario 15: Model Hot Reload
+ *
+ * This test scenario verifies reloading context models at runtime:
+ * 1. A valid file replaces the models atomically
+ * 2. An invalid or missing file keeps the last good set
+ * 3. Watching the file reloads models when it changes
+ *
+ * Covers: ContextProcessor.reloadModels, ContextProcessor.watchModels
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { ContextProcessor } from "../src/processor";
+import { MemoryContextStorage } from "../src/storage";
+import { ModelReloadResult } from "../src/types";
+import { TestStorageManager } from "./test-utils";
+
+const modelsFile = (...names: string[]) =>
+  JSON.stringify({
+    models: names.map((name) => ({
+      name,
+      description: `${name} model`,
+      strategies: [{ name: "analyze", enabled: true }],
+    })),
+  });
+
+describe("Scenario 15: Model Hot Reload", () => {
+  let storageManager: TestStorageManager;
+  let modelsPath: string;
+  let processor: ContextProcessor;
+
+  beforeEach(() => {
+    storageManager = new TestStorageManager();
+    fs.mkdirSync(storageManager.getStorageDir(), { recursive: true });
+    modelsPath = path.join(storageManager.getStorageDir(), "context-models.json");
+    fs.writeFileSync(modelsPath, modelsFile("first"));
+    processor = new ContextProcessor({
+      storage: new MemoryContextStorage(),
+      modelsPath,
+    });
+  });
+
+  afterEach(() => {
+    storageManager.cleanup();
+  });
+
+  describe("15.1 Reloading", () => {
+    test("should replace the models when the file is valid", async () => {
+      // Arrange
+      fs.writeFileSync(modelsPath, modelsFile("second", "third"));
+
+      // Act
+      const result = await processor.reloadModels();
+
+      // Assert
+      expect(result).toEqual({
+        reloaded: true,
+        models: ["second", "third"],
+        errors: [],
+      });
+      expect(processor.getModel("first")).toBeUndefined();
+    });
+
+    test("should keep the last good models when the file is invalid", async () => {
+      // Arrange
+      fs.writeFileSync(
+        modelsPath,
+        JSON.stringify({ models: [{ name: "second" }] })
+      );
+
+      // Act
+      const result = await processor.reloadModels();
+
+      // Assert
+      expect(result.reloaded).toBe(false);
+      expect(result.models).toEqual(["first"]);
+      expect(result.errors[0].path).toBe("models[0].description");
+      expect(processor.getModel("second")).toBeUndefined();
+    });
+
+    test("should keep the models when the file is removed", async () => {
+      // Arrange
+      fs.unlinkSync(modelsPath);
+
+      // Act
+      const result = await processor.reloadModels();
+
+      // Assert
+      expect(result.reloaded).toBe(false);
+      expect(processor.listModels().map((m) => m.name)).toEqual(["first"]);
+    });
+  });
+
+  describe("15.2 Watching", () => {
+    test("should reload when the models file changes", async () => {
+      // Arrange
+      const reloaded = new Promise<ModelReloadResult>((resolve) => {
+        const stop = processor.watchModels((result) => {
+          stop();
+          resolve(result);
+        }, 20);
+      });
+
+      // Act
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      fs.writeFileSync(modelsPath, modelsFile("watched"));
+      const result = await reloaded;
+
+      // Assert
+      expect(result.reloaded).toBe(true);
+      expect(processor.getModel("watched")).toBeDefined();
+    });
+  });
+});
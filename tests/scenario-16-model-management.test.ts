@@ -0,0 +1,167 @@
+/**
+ * Test Scenario 16: Model Management
+ *
+ * This test scenario verifies creating, updating and deleting models at runtime:
+ * 1. New models are validated and persisted to the user models file
+ * 2. User models can be updated and deleted
+ * 3. Models from the models file and the defaults are protected
+ * 4. User models survive restarts and hot reloads
+ *
+ * Covers: ContextProcessor model management, ModelStore
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { ContextProcessor } from "../src/processor";
+import { MemoryContextStorage } from "../src/storage";
+import { ContextModel } from "../src/types";
+import { TestStorageManager } from "./test-utils";
+
+describe("Scenario 16: Model Management", () => {
+  let storageManager: TestStorageManager;
+  let userModelsPath: string;
+  let processor: ContextProcessor;
+
+  const pipeline: ContextModel = {
+    name: "pipeline",
+    description: "Project pipeline",
+    strategies: [
+      { name: "analyze", enabled: true },
+      { name: "search", enabled: true, config: { maxKeywords: 5 } },
+    ],
+  };
+
+  const createProcessor = () =>
+    new ContextProcessor({
+      storage: new MemoryContextStorage(),
+      modelsPath: path.join(storageManager.getStorageDir(), "missing.json"),
+      userModelsPath,
+    });
+
+  beforeEach(() => {
+    storageManager = new TestStorageManager();
+    userModelsPath = path.join(storageManager.getStorageDir(), "user-models.json");
+    processor = createProcessor();
+  });
+
+  afterEach(() => {
+    storageManager.cleanup();
+  });
+
+  describe("16.1 Creating Models", () => {
+    test("should create, persist and use a model", async () => {
+      // Act
+      await processor.createModel(pipeline);
+      const saved = await processor.save({
+        title: "T",
+        content: "Some content to analyze and search.",
+        modelName: "pipeline",
+      });
+
+      // Assert
+      expect(saved.appliedStrategies).toEqual(["analyze", "search"]);
+      expect(JSON.parse(fs.readFileSync(userModelsPath, "utf-8"))).toEqual({
+        models: [pipeline],
+      });
+      expect(processor.getModelInfo("pipeline")).toMatchObject({ builtIn: false });
+    });
+
+    test("should reject unknown strategies and invalid config", async () => {
+      await expect(
+        processor.createModel({
+          ...pipeline,
+          strategies: [{ name: "nope", enabled: true }],
+        })
+      ).rejects.toThrow('Invalid model "pipeline": strategies[0].name: Unknown strategy "nope"');
+      await expect(
+        processor.createModel({
+          ...pipeline,
+          strategies: [{ name: "fetch", enabled: true, config: { maxUrls: -1 } }],
+        })
+      ).rejects.toThrow(/strategies\[0\]\.config\.maxUrls/);
+      expect(fs.existsSync(userModelsPath)).toBe(false);
+    });
+
+    test("should reject duplicate names", async () => {
+      // Arrange
+      await processor.createModel(pipeline);
+
+      // Assert
+      await expect(processor.createModel(pipeline)).rejects.toThrow(
+        'Model "pipeline" already exists'
+      );
+      await expect(
+        processor.createModel({ ...pipeline, name: "clarify" })
+      ).rejects.toThrow('Model "clarify" already exists');
+    });
+  });
+
+  describe("16.2 Updating and Deleting", () => {
+    test("should update only the given fields", async () => {
+      // Arrange
+      await processor.createModel(pipeline);
+
+      // Act
+      const updated = await processor.updateModel({
+        name: "pipeline",
+        strategies: [{ name: "fetch", enabled: true }],
+      });
+
+      // Assert
+      expect(updated).toEqual({
+        ...pipeline,
+        strategies: [{ name: "fetch", enabled: true }],
+      });
+      expect(createProcessor().getModel("pipeline")).toEqual(updated);
+    });
+
+    test("should delete user models", async () => {
+      // Arrange
+      await processor.createModel(pipeline);
+
+      // Act & Assert
+      expect(processor.deleteModel("pipeline")).toBe(true);
+      expect(processor.getModel("pipeline")).toBeUndefined();
+      expect(processor.deleteModel("pipeline")).toBe(false);
+      expect(await processor.updateModel({ name: "pipeline" })).toBeNull();
+    });
+
+    test("should protect built-in models", async () => {
+      // Assert
+      expect(() => processor.deleteModel("comprehensive")).toThrow(
+        'Model "comprehensive" is a built-in model and cannot be changed or deleted'
+      );
+      await expect(
+        processor.updateModel({ name: "clarify", description: "changed" })
+      ).rejects.toThrow("built-in model");
+      expect(processor.getModelInfo("clarify")!.builtIn).toBe(true);
+    });
+  });
+
+  describe("16.3 Persistence", () => {
+    test("should keep user models across reloads of the models file", async () => {
+      // Arrange
+      const modelsPath = path.join(storageManager.getStorageDir(), "context-models.json");
+      fs.mkdirSync(storageManager.getStorageDir(), { recursive: true });
+      fs.writeFileSync(modelsPath, JSON.stringify({ models: [] }));
+      const withFile = new ContextProcessor({
+        storage: new MemoryContextStorage(),
+        modelsPath,
+        userModelsPath,
+      });
+      await withFile.createModel(pipeline);
+
+      // Act
+      fs.writeFileSync(
+        modelsPath,
+        JSON.stringify({
+          models: [{ name: "base", description: "b", strategies: [] }],
+        })
+      );
+      const result = await withFile.reloadModels();
+
+      // Assert
+      expect(result.models).toEqual(["base", "pipeline"]);
+    });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Test Scenario 17: Model Inheritance
+ *
+ * This test scenario verifies composing models with `extends`:
+ * 1. Child strategies override inherited ones by name or are appended
+ * 2. Resolved strategies record the model they came from
+ * 3. Cycles and unknown or invalid parents are rejected
+ * 4. User models can extend built-in models, and parents cannot be deleted
+ *
+ * Covers: resolveModel, validateModels, ContextProcessor.resolveModel, ModelStore
+ */
+
+import * as path from "path";
+import { resolveModel, validateModels } from "../src/models";
+import { ContextProcessor } from "../src/processor";
+import { MemoryContextStorage } from "../src/storage";
+import { ContextModel } from "../src/types";
+import { TestStorageManager } from "./test-utils";
+
+const base: ContextModel = {
+  name: "base",
+  description: "Base model",
+  strategies: [
+    { name: "keywords", type: "search", enabled: true, config: { maxKeywords: 3 } },
+    { name: "analyze", enabled: true },
+  ],
+};
+
+const child: ContextModel = {
+  name: "child",
+  description: "Child model",
+  extends: "base",
+  strategies: [
+    { name: "keywords", enabled: true, config: { maxKeywords: 8 } },
+    { name: "fetch", enabled: true },
+  ],
+};
+
+const lookupIn =
+  (...models: ContextModel[]) =>
+  (name: string) =>
+    models.find((m) => m.name === name);
+
+describe("Scenario 17: Model Inheritance", () => {
+  describe("17.1 Resolving", () => {
+    test("should override inherited strategies by name and append new ones", () => {
+      // Act
+      const resolved = resolveModel("child", lookupIn(base, child));
+
+      // Assert
+      expect(resolved.inheritance).toEqual(["child", "base"]);
+      expect(resolved.strategies).toEqual([
+        {
+          name: "keywords",
+          type: "search",
+          enabled: true,
+          config: { maxKeywords: 8 },
+          origin: "child",
+          overrides: "base",
+        },
+        { name: "analyze", enabled: true, origin: "base" },
+        { name: "fetch", enabled: true, origin: "child" },
+      ]);
+    });
+
+    test("should disable an inherited strategy", () => {
+      // Arrange
+      const quiet: ContextModel = {
+        name: "quiet",
+        description: "No analysis",
+        extends: "child",
+        strategies: [{ name: "analyze", enabled: false }],
+      };
+
+      // Act
+      const resolved = resolveModel("quiet", lookupIn(base, child, quiet));
+
+      // Assert
+      expect(resolved.inheritance).toEqual(["quiet", "child", "base"]);
+      expect(resolved.strategies[1]).toMatchObject({
+        name: "analyze",
+        enabled: false,
+        origin: "quiet",
+        overrides: "base",
+      });
+    });
+
+    test("should detect cycles and unknown parents", () => {
+      // Arrange
+      const a = { ...base, name: "a", extends: "b" };
+      const b = { ...base, name: "b", extends: "a" };
+
+      // Assert
+      expect(() => resolveModel("a", lookupIn(a, b))).toThrow(
+        "Cycle in model inheritance: a -> b -> a"
+      );
+      expect(() => resolveModel("child", lookupIn(child))).toThrow(
+        'Model "child" extends unknown model "base"'
+      );
+    });
+  });
+
+  describe("17.2 Validation", () => {
+    test("should accept parents defined later in the file", () => {
+      const result = validateModels({ models: [child, base] });
+      expect(result.valid).toBe(true);
+      expect(result.models.map((m) => m.name)).toEqual(["child", "base"]);
+    });
+
+    test("should validate overrides with their inherited type", () => {
+      // Act
+      const result = validateModels({
+        models: [
+          base,
+          {
+            ...child,
+            strategies: [{ name: "keywords", enabled: true, config: { maxKeywords: 0 } }],
+          },
+        ],
+      });
+
+      // Assert
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]).toMatchObject({
+        model: "child",
+        path: "models[1].strategies[0].config.maxKeywords",
+      });
+    });
+
+    test("should reject cycles and children of invalid models", () => {
+      // Act
+      const result = validateModels({
+        models: [
+          { ...base, name: "a", extends: "b" },
+          { ...base, name: "b", extends: "a" },
+          { ...base, strategies: [...base.strategies, { name: "nope", enabled: true }] },
+          child,
+        ],
+      });
+
+      // Assert
+      expect(result.models).toEqual([]);
+      expect(result.errors.map((e) => [e.path, e.message])).toEqual([
+        ["models[0].extends", "Cycle in model inheritance: a -> b -> a"],
+        ["models[1].extends", "Cycle in model inheritance: b -> a -> b"],
+        ["models[2].strategies[2].name", 'Unknown strategy "nope"'],
+        ["models[3].extends", 'Model "child" extends invalid model "base"'],
+      ]);
+    });
+  });
+
+  describe("17.3 Processor", () => {
+    let storageManager: TestStorageManager;
+    let processor: ContextProcessor;
+
+    beforeEach(() => {
+      storageManager = new TestStorageManager();
+      processor = new ContextProcessor({
+        storage: new MemoryContextStorage(),
+        modelsPath: path.join(__dirname, "..", "context-models.json"),
+        userModelsPath: path.join(storageManager.getStorageDir(), "user-models.json"),
+      });
+    });
+
+    afterEach(() => {
+      storageManager.cleanup();
+    });
+
+    test("should resolve the bundled comprehensive model", () => {
+      // Act
+      const resolved = processor.resolveModel("comprehensive")!;
+
+      // Assert
+      expect(resolved.strategies.map((s) => [s.name, s.origin])).toEqual([
+        ["clarify", "clarify"],
+        ["analyze", "comprehensive"],
+        ["search", "comprehensive"],
+      ]);
+      expect(processor.getModelInfo("comprehensive")).toMatchObject({
+        extends: "clarify",
+        strategies: ["clarify", "analyze", "search"],
+      });
+      expect(processor.resolveModel("does-not-exist")).toBeUndefined();
+    });
+
+    test("should apply inherited strategies when saving", async () => {
+      // Arrange
+      await processor.createModel({
+        name: "analysis_plus",
+        description: "Analysis with URLs",
+        extends: "analysis",
+        strategies: [{ name: "fetch", type: "fetch", enabled: true }],
+      });
+
+      // Act
+      const saved = await processor.save({
+        title: "T",
+        content: "See https://example.com for details.",
+        modelName: "analysis_plus",
+      });
+
+      // Assert
+      expect(saved.appliedStrategies).toEqual(["analyze", "fetch"]);
+    });
+
+    test("should reject unknown parents and protect extended models", async () => {
+      // Arrange
+      await processor.createModel({ ...base, name: "parent" });
+      await processor.createModel({ ...child, extends: "parent" });
+
+      // Assert
+      await expect(
+        processor.createModel({ ...child, name: "orphan", extends: "missing" })
+      ).rejects.toThrow('Invalid model "orphan": extends: Model "orphan" extends unknown model "missing"');
+      await expect(
+        processor.updateModel({ name: "parent", extends: "child" })
+      ).rejects.toThrow("Cycle in model inheritance: parent -> child -> parent");
+      expect(() => processor.deleteModel("parent")).toThrow(
+        'Model "parent" is extended by "child"'
+      );
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Test Scenario 18: Unknown Models and Failed Strategies
+ *
+ * This test scenario verifies how save and update report model problems:
+ * 1. Lenient mode saves unprocessed contexts with a warning
+ * 2. Strict mode rejects unknown models and lists the available ones
+ * 3. Failed strategies and their errors are returned with the result
+ *
+ * Covers: ContextProcessor.save, ContextProcessor.update, UnknownModelError
+ */
+
+import * as path from "path";
+import { UnknownModelError } from "../src/models";
+import { ContextProcessor } from "../src/processor";
+import { MemoryContextStorage } from "../src/storage";
+import { UnknownModelMode } from "../src/types";
+import { TestStorageManager } from "./test-utils";
+
+describe("Scenario 18: Unknown Models and Failed Strategies", () => {
+  let storageManager: TestStorageManager;
+  let storage: MemoryContextStorage;
+
+  const createProcessor = (unknownModel?: UnknownModelMode) =>
+    new ContextProcessor({
+      storage,
+      modelsPath: path.join(__dirname, "..", "context-models.json"),
+      userModelsPath: path.join(storageManager.getStorageDir(), "user-models.json"),
+      unknownModel,
+    });
+
+  beforeEach(() => {
+    storageManager = new TestStorageManager();
+    storage = new MemoryContextStorage();
+  });
+
+  afterEach(() => {
+    storageManager.cleanup();
+  });
+
+  describe("18.1 Lenient Mode", () => {
+    test("should save without processing and warn about the model", async () => {
+      // Arrange
+      const processor = createProcessor();
+
+      // Act
+      const saved = await processor.save({
+        title: "Typo",
+        content: "Some content",
+        modelName: "comprehensiv",
+      });
+
+      // Assert
+      expect(saved.appliedStrategies).toEqual([]);
+      expect(saved.failedStrategies).toEqual([]);
+      expect(saved.warnings).toHaveLength(1);
+      expect(saved.warnings![0]).toMatch(/^Unknown model "comprehensiv"; saved without pre-processing/);
+      expect(saved.warnings![0]).toContain("comprehensive");
+      expect(processor.load(saved.id)).not.toBeNull();
+    });
+
+    test("should keep existing annotations when updating with an unknown model", async () => {
+      // Arrange
+      const processor = createProcessor("lenient");
+      const saved = await processor.save({ title: "T", content: "Text" }, "analysis");
+
+      // Act
+      const updated = await processor.update({
+        contextId: saved.id,
+        title: "T2",
+        modelName: "analysys",
+      });
+
+      // Assert
+      expect(updated!.warnings).toHaveLength(1);
+      expect(updated!.annotations).toHaveLength(1);
+    });
+
+    test("should not warn for known models", async () => {
+      const saved = await createProcessor().save({ title: "T", content: "Text" }, "analysis");
+      expect(saved.warnings).toBeUndefined();
+    });
+  });
+
+  describe("18.2 Strict Mode", () => {
+    test("should reject unknown models with the available names", async () => {
+      // Arrange
+      const processor = createProcessor("strict");
+
+      // Act
+      const saving = processor.save({
+        title: "Typo",
+        content: "Some content",
+        modelName: "comprehensiv",
+      });
+
+      // Assert
+      await expect(saving).rejects.toThrow(UnknownModelError);
+      await expect(saving).rejects.toMatchObject({
+        modelName: "comprehensiv",
+        available: [
+          "clarify",
+          "search_optimized",
+          "analysis",
+          "comprehensive",
+          "web_enhanced",
+        ],
+      });
+      expect(storage.count()).toBe(0);
+    });
+
+    test("should leave the context unchanged when an update names an unknown model", async () => {
+      // Arrange
+      const processor = createProcessor("strict");
+      const saved = await processor.save({ title: "T", content: "Text" });
+
+      // Act & Assert
+      await expect(
+        processor.update({ contextId: saved.id, title: "T2", modelName: "nope" })
+      ).rejects.toThrow('Unknown model "nope". Available models: clarify,');
+      expect(processor.load(saved.id)!.title).toBe("T");
+    });
+  });
+
+  describe("18.3 Failed Strategies", () => {
+    test("should report failed strategies next to the applied ones", async () => {
+      // Arrange
+      const processor = createProcessor("strict");
+      await processor.createModel({
+        name: "broken",
+        description: "Custom strategy without a module",
+        strategies: [
+          { name: "analyze", enabled: true },
+          { name: "custom", enabled: true },
+        ],
+      });
+
+      // Act
+      const saved = await processor.save({
+        title: "T",
+        content: "Text",
+        modelName: "broken",
+      });
+
+      // Assert
+      expect(saved.appliedStrategies).toEqual(["analyze"]);
+      expect(saved.failedStrategies).toEqual([
+        { strategy: "custom", error: "No custom processor module provided" },
+      ]);
+      expect(saved.warnings).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,325 @@
+/**
+ * Test Scenario 19: Per-Model Storage Locations
+ *
+ * This test scenario verifies that models can store contexts separately:
+ * 1. Contexts saved with a model go to its directory or backend
+ * 2. Load, list, search and delete work across all locations
+ * 3. Updating with another model moves the context; other updates keep it in place
+ * 4. Locations are known again after a restart and inherited through `extends`
+ * 5. Locations cannot hold the models or other protected files, runtime models
+ *    store inside the models directory, and stray JSON files are not contexts
+ *
+ * Covers: ContextProcessor with storageLocation, MultiLocationStorage
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { ContextProcessor } from "../src/processor";
+import { MemoryContextStorage, MultiLocationStorage } from "../src/storage";
+import { TestStorageManager } from "./test-utils";
+
+describe("Scenario 19: Per-Model Storage Locations", () => {
+  let storageManager: TestStorageManager;
+  let baseDir: string;
+
+  const createProcessor = () =>
+    new ContextProcessor({
+      storageDir: path.join(baseDir, "contexts"),
+      modelsPath: path.join(baseDir, "context-models.json"),
+    });
+
+  const filesIn = (directory: string) =>
+    fs.existsSync(directory)
+      ? fs.readdirSync(directory).filter((file) => file.endsWith(".json"))
+      : [];
+
+  beforeEach(() => {
+    storageManager = new TestStorageManager();
+    baseDir = storageManager.getStorageDir();
+    fs.mkdirSync(baseDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(baseDir, "context-models.json"),
+      JSON.stringify({
+        models: [
+          {
+            name: "scratch",
+            description: "Throwaway notes",
+            storageLocation: "scratch",
+            strategies: [{ name: "analyze", enabled: true }],
+          },
+          {
+            name: "knowledge_base",
+            description: "Curated knowledge",
+            storageLocation: { type: "sqlite", filename: "kb.db" },
+            strategies: [{ name: "search", enabled: true }],
+          },
+          {
+            name: "kb_analysis",
+            description: "Analyzed knowledge",
+            extends: "knowledge_base",
+            strategies: [{ name: "analyze", enabled: true }],
+          },
+          {
+            name: "plain",
+            description: "Default location",
+            strategies: [{ name: "analyze", enabled: true }],
+          },
+        ],
+      })
+    );
+  });
+
+  afterEach(() => {
+    storageManager.cleanup();
+  });
+
+  describe("19.1 Saving", () => {
+    test("should store contexts in the model's directory", async () => {
+      // Arrange
+      const processor = createProcessor();
+
+      // Act
+      const scratch = await processor.save({ title: "S", content: "Notes" }, "scratch");
+      const plain = await processor.save({ title: "P", content: "Notes" }, "plain");
+
+      // Assert
+      expect(filesIn(path.join(baseDir, "scratch"))).toEqual([`${scratch.id}.json`]);
+      expect(filesIn(path.join(baseDir, "contexts"))).toEqual([`${plain.id}.json`]);
+    });
+
+    test("should store contexts in the model's backend", async () => {
+      // Arrange
+      const processor = createProcessor();
+
+      // Act
+      const saved = await processor.save(
+        { title: "KB", content: "Deployment knowledge" },
+        "knowledge_base"
+      );
+
+      // Assert
+      expect(fs.existsSync(path.join(baseDir, "kb.db"))).toBe(true);
+      expect(filesIn(path.join(baseDir, "contexts"))).toEqual([]);
+      expect(processor.load(saved.id)!.title).toBe("KB");
+    });
+
+    test("should inherit the storage location of the parent model", async () => {
+      // Arrange
+      const processor = createProcessor();
+
+      // Act
+      await processor.save({ title: "KB", content: "Analyzed" }, "kb_analysis");
+
+      // Assert
+      expect(processor.resolveModel("kb_analysis")!.storageLocation).toEqual({
+        type: "sqlite",
+        filename: "kb.db",
+      });
+      expect(filesIn(path.join(baseDir, "contexts"))).toEqual([]);
+      expect(processor.count()).toBe(1);
+    });
+  });
+
+  describe("19.2 Reading Across Locations", () => {
+    test("should load, list, search and delete across locations", async () => {
+      // Arrange
+      const processor = createProcessor();
+      const scratch = await processor.save(
+        { title: "Scratch", content: "Deployment scratch", tags: ["ops"] },
+        "scratch"
+      );
+      const kb = await processor.save(
+        { title: "KB", content: "Deployment guide", tags: ["ops"] },
+        "knowledge_base"
+      );
+      const plain = await processor.save({ title: "Plain", content: "Other" });
+
+      // Act & Assert
+      expect(processor.list().map((c) => c.id).sort()).toEqual(
+        [scratch.id, kb.id, plain.id].sort()
+      );
+      expect(processor.listPage({ tags: ["ops"] }).total).toBe(2);
+      expect(
+        processor.fullTextSearch({ query: "deployment" }).map((r) => r.contextId).sort()
+      ).toEqual([scratch.id, kb.id].sort());
+
+      expect(processor.delete(kb.id)).toBe(true);
+      expect(processor.delete(scratch.id)).toBe(true);
+      expect(processor.load(kb.id)).toBeNull();
+      expect(filesIn(path.join(baseDir, "scratch"))).toEqual([]);
+      expect(processor.count()).toBe(1);
+    });
+
+    test("should find contexts in every location after a restart", async () => {
+      // Arrange
+      const first = createProcessor();
+      const scratch = await first.save({ title: "S", content: "Notes" }, "scratch");
+      const kb = await first.save({ title: "KB", content: "Guide" }, "knowledge_base");
+      fs.rmSync(path.join(baseDir, "contexts", ".index"), { recursive: true, force: true });
+
+      // Act
+      const second = createProcessor();
+
+      // Assert
+      expect(second.load(scratch.id)!.title).toBe("S");
+      expect(second.load(kb.id)!.title).toBe("KB");
+      expect(second.fullTextSearch({ query: "guide" })[0].contextId).toBe(kb.id);
+    });
+  });
+
+  describe("19.3 Moving Contexts", () => {
+    test("should move a context when updated with another model", async () => {
+      // Arrange
+      const processor = createProcessor();
+      const saved = await processor.save({ title: "S", content: "Notes" }, "scratch");
+
+      // Act
+      await processor.update({ contextId: saved.id, title: "Renamed" });
+      const keptInPlace = filesIn(path.join(baseDir, "scratch"));
+      await processor.update({ contextId: saved.id, modelName: "plain" });
+
+      // Assert
+      expect(keptInPlace).toEqual([`${saved.id}.json`]);
+      expect(filesIn(path.join(baseDir, "scratch"))).toEqual([]);
+      expect(filesIn(path.join(baseDir, "contexts"))).toEqual([`${saved.id}.json`]);
+      expect(processor.load(saved.id)!.title).toBe("Renamed");
+    });
+
+    test("should register locations of models created at runtime", async () => {
+      // Arrange
+      const processor = createProcessor();
+      await processor.createModel({
+        name: "archive",
+        description: "Archived contexts",
+        storageLocation: "archive",
+        strategies: [],
+      });
+
+      // Act
+      const saved = await processor.save({ title: "A", content: "Old" }, "archive");
+
+      // Assert
+      expect(filesIn(path.join(baseDir, "archive"))).toEqual([`${saved.id}.json`]);
+    });
+  });
+
+  describe("19.4 Protected Files", () => {
+    test("should refuse locations that would hold the models or protected files", async () => {
+      // Arrange
+      const modelsDir = path.resolve(baseDir);
+      const tokensFile = path.join(modelsDir, "secrets", "tokens.json");
+      const processor = new ContextProcessor({
+        storageDir: path.join(baseDir, "contexts"),
+        modelsPath: path.join(baseDir, "context-models.json"),
+        protectedFiles: [tokensFile],
+      });
+      const model = (storageLocation: string | { type: string; filename: string }) => ({
+        name: "unsafe",
+        description: "Unsafe location",
+        storageLocation,
+        strategies: [],
+      });
+
+      // Act & Assert
+      await expect(processor.createModel(model("."))).rejects.toThrow(
+        `storageLocation: Storage location ${modelsDir} would hold ${path.join(
+          modelsDir,
+          "context-models.json"
+        )}`
+      );
+      await expect(processor.createModel(model("secrets"))).rejects.toThrow(
+        `would hold ${tokensFile}`
+      );
+      await expect(
+        processor.createModel(model({ type: "sqlite", filename: "secrets/tokens.json" }))
+      ).rejects.toThrow(`would hold ${tokensFile}`);
+      expect(processor.listModels().map((m) => m.name)).not.toContain("unsafe");
+    });
+
+    test("should keep locations of runtime models inside the models directory", async () => {
+      // Arrange
+      const processor = createProcessor();
+      const outside = path.resolve(baseDir, "..", "elsewhere");
+      const model = (storageLocation: string | { type: string; filename: string }) => ({
+        name: "escape",
+        description: "Outside location",
+        storageLocation,
+        strategies: [],
+      });
+
+      // Act & Assert
+      await expect(processor.createModel(model(outside))).rejects.toThrow(
+        `storageLocation: Storage location ${outside} is outside the models directory ${path.resolve(baseDir)}`
+      );
+      await expect(
+        processor.createModel(model({ type: "sqlite", filename: "../elsewhere.db" }))
+      ).rejects.toThrow("is outside the models directory");
+      await processor.createModel(model({ type: "sqlite", filename: ":memory:" }));
+      await expect(
+        processor.updateModel({ name: "escape", storageLocation: outside })
+      ).rejects.toThrow("is outside the models directory");
+      expect(fs.existsSync(outside)).toBe(false);
+    });
+
+    test("should start with an unsafe location in the user models file", async () => {
+      // Arrange
+      jest.spyOn(console, "error").mockImplementation(() => {});
+      fs.writeFileSync(
+        path.join(baseDir, "user-models.json"),
+        JSON.stringify({
+          models: [
+            { name: "unsafe", description: "Models directory", storageLocation: ".", strategies: [] },
+          ],
+        })
+      );
+
+      // Act
+      const processor = createProcessor();
+      await processor.save({ title: "A", content: "a", tags: ["ops"] });
+
+      // Assert
+      expect(processor.listTags()).toEqual(["ops"]);
+      expect(processor.listPage({ tags: ["ops"] }).total).toBe(1);
+      await expect(processor.save({ title: "B", content: "b" }, "unsafe")).rejects.toThrow(
+        "would hold"
+      );
+      jest.restoreAllMocks();
+    });
+
+    test("should ignore JSON files that are not contexts", async () => {
+      // Arrange
+      const processor = createProcessor();
+      const saved = await processor.save({ title: "Scratch", content: "x" }, "scratch");
+      const stray = path.join(baseDir, "scratch", "settings.json");
+      fs.writeFileSync(stray, JSON.stringify({ theme: "dark" }));
+      fs.writeFileSync(path.join(baseDir, "scratch", "broken.json"), "{");
+
+      // Act & Assert
+      expect(createProcessor().list().map((c) => c.id)).toEqual([saved.id]);
+      expect(processor.load("settings")).toBeNull();
+      expect(processor.delete("settings")).toBe(false);
+      expect(fs.existsSync(stray)).toBe(true);
+    });
+  });
+
+  describe("19.5 MultiLocationStorage", () => {
+    test("should list contexts once when locations share storage", () => {
+      // Arrange
+      const shared = new MemoryContextStorage();
+      const storage = new MultiLocationStorage(shared);
+      storage.addLocation("same", () => shared);
+
+      // Act
+      storage.saveTo(
+        { id: "a", title: "A", content: "", metadata: {}, tags: [], createdAt: 1, updatedAt: 1 },
+        "same"
+      );
+
+      // Assert
+      expect(storage.list()).toHaveLength(1);
+      expect(() => storage.saveTo(storage.load("a")!, "missing")).toThrow(
+        'Unknown storage location "missing"'
+      );
+    });
+  });
+});
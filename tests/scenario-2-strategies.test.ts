@@ -7,6 +7,7 @@
  * 3. Search Strategy - Keyword extraction
  * 4. Fetch Strategy - URL detection
  * 5. Strategy Combinations - Multiple strategies in sequence
+ * 6. Structured Output - Typed results alongside the text annotations
  *
  * Covers: All pre-processing logic, strategy execution, and combinations
  */
@@ -583,4 +584,50 @@ describe("Scenario 2: Pre-Processing Strategies", () => {
       expect(result.processed).toContain("sdk.example.com");
     });
   });
+
+  describe("2.9 Structured Output", () => {
+    test("should return typed output for every built-in strategy", async () => {
+      // Arrange
+      const content =
+        "The API basically returns data. See https://api.example.com/docs for endpoints.";
+
+      // Act
+      const clarify = await helper.testClarifyStrategy(content);
+      const analyze = await helper.testAnalyzeStrategy(content);
+      const search = await helper.testSearchStrategy(content);
+      const fetch = await helper.testFetchStrategy(content);
+
+      // Assert
+      expect(clarify.results[0].output).toMatchObject({
+        type: "clarify",
+        originalLength: content.length,
+        issues: ["Found 1 vague word(s)"],
+      });
+      expect(analyze.results[0].output).toMatchObject({
+        type: "analyze",
+        wordCount: 9,
+        complexity: expect.stringMatching(/low|medium|high/),
+      });
+      const searchOutput = search.results[0].output;
+      expect(searchOutput!.type).toBe("search");
+      expect(searchOutput!.keywords).toContain("returns");
+      expect(fetch.results[0].output).toEqual({
+        type: "fetch",
+        urls: ["https://api.example.com/docs"],
+      });
+    });
+
+    test("should omit output for failed strategies", async () => {
+      // Act
+      const result = await helper
+        .getPreprocessor()
+        .processContent("content", [
+          { name: "custom", type: "custom", enabled: true },
+        ]);
+
+      // Assert
+      expect(result.results[0].processed).toBe(false);
+      expect(result.results[0].output).toBeUndefined();
+    });
+  });
 });
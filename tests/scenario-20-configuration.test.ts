@@ -0,0 +1,313 @@
+/**
+ * Test Scenario 20: Layered Configuration
+ *
+ * This test scenario verifies how the server configuration is resolved:
+ * 1. Defaults resolve against the working directory
+ * 2. The config file, environment variables and CLI flags override in that order
+ * 3. Invalid values, unknown flags and missing config files are rejected
+ * 4. The effective configuration, and processor warnings and errors, are logged at the configured level
+ * 5. The server uses the configured storage backend and revision retention
+ *
+ * Covers: loadConfig, parseArgs, describeConfig, createLogger, ContextProcessor logger,
+ * ContextMCPServer.fromConfig
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { describeConfig, loadConfig, parseArgs } from "../src/config";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { Logger, createLogger } from "../src/logger";
+import { ContextProcessor } from "../src/processor";
+import { ContextMCPServer } from "../src/server";
+import { SqliteContextStorage } from "../src/sqlite-storage";
+import { MemoryContextStorage } from "../src/storage";
+import { TestStorageManager } from "./test-utils";
+
+describe("Scenario 20: Layered Configuration", () => {
+  let storageManager: TestStorageManager;
+  let cwd: string;
+
+  const writeConfigFile = (content: unknown, file = "context-processor.config.json") => {
+    const filePath = path.join(cwd, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(content));
+    return filePath;
+  };
+
+  beforeEach(() => {
+    storageManager = new TestStorageManager();
+    cwd = path.resolve(storageManager.getStorageDir());
+    fs.mkdirSync(cwd, { recursive: true });
+  });
+
+  afterEach(() => {
+    storageManager.cleanup();
+    jest.restoreAllMocks();
+  });
+
+  describe("20.1 Layers", () => {
+    test("should resolve defaults against the working directory", () => {
+      // Act
+      const { config, sources, configFile } = loadConfig({ cwd, env: {} });
+
+      // Assert
+      expect(config).toEqual({
+        storageType: "file",
+        storageDir: path.join(cwd, "contexts"),
+        storageFile: path.join(cwd, "contexts.db"),
+        modelsPath: path.join(cwd, "context-models.json"),
+        logLevel: "info",
+        transport: "stdio",
+        host: "127.0.0.1",
+        port: 3000,
+        unknownModel: "lenient",
+        maxRevisions: 50,
+      });
+      expect(Object.values(sources).every((s) => s === "default")).toBe(true);
+      expect(configFile).toBeUndefined();
+    });
+
+    test("should apply the config file, then env vars, then flags", () => {
+      // Arrange
+      writeConfigFile(
+        { storageDir: "data", modelsPath: "models.json", logLevel: "debug" },
+        "conf/settings.json"
+      );
+
+      // Act
+      const { config, sources } = loadConfig({
+        cwd,
+        env: {
+          CONTEXT_PROCESSOR_CONFIG: "conf/settings.json",
+          CONTEXT_PROCESSOR_STORAGE_DIR: "env-data",
+          CONTEXT_PROCESSOR_LOG_LEVEL: "warn",
+        },
+        flags: { "log-level": "error", "unknown-model": "strict" },
+      });
+
+      // Assert
+      expect(config.modelsPath).toBe(path.join(cwd, "conf", "models.json"));
+      expect(config.storageDir).toBe(path.join(cwd, "env-data"));
+      expect(config.logLevel).toBe("error");
+      expect(config.unknownModel).toBe("strict");
+      expect(sources).toEqual({
+        storageType: "default",
+        storageDir: "env",
+        storageFile: "default",
+        modelsPath: "file",
+        logLevel: "cli",
+        transport: "default",
+        host: "default",
+        port: "default",
+        unknownModel: "cli",
+        tokensFile: "default",
+        pluginsDir: "default",
+        maxRevisions: "default",
+        maxAgeDays: "default",
+      });
+    });
+
+    test("should read the default config file from the working directory", () => {
+      // Arrange
+      const filePath = writeConfigFile({ storageDir: "/srv/contexts" });
+
+      // Act
+      const resolved = loadConfig({ cwd, env: {} });
+
+      // Assert
+      expect(resolved.configFile).toBe(filePath);
+      expect(resolved.config.storageDir).toBe(path.resolve("/srv/contexts"));
+    });
+  });
+
+  describe("20.2 Errors", () => {
+    test("should name the setting and layer of invalid values", () => {
+      expect(() =>
+        loadConfig({ cwd, env: { CONTEXT_PROCESSOR_TRANSPORT: "carrier-pigeon" } })
+      ).toThrow(/^Invalid configuration in environment variables: CONTEXT_PROCESSOR_TRANSPORT: /);
+      expect(() => loadConfig({ cwd, env: {}, flags: { "log-level": "loud" } })).toThrow(
+        /command-line flags: --log-level: /
+      );
+      expect(() => loadConfig({ cwd, env: {}, flags: { port: "http" } })).toThrow(
+        /--port: /
+      );
+      expect(() =>
+        loadConfig({ cwd, env: { CONTEXT_PROCESSOR_MAX_REVISIONS: "-1" } })
+      ).toThrow(/CONTEXT_PROCESSOR_MAX_REVISIONS: /);
+    });
+
+    test("should reject unknown keys, unknown flags and missing files", () => {
+      // Arrange
+      writeConfigFile({ storage: "x" });
+
+      // Assert
+      expect(() => loadConfig({ cwd, env: {} })).toThrow(/Unrecognized key: "storage"/);
+      expect(() => loadConfig({ cwd, env: {}, flags: { bogus: "1" } })).toThrow(
+        "Unknown option --bogus"
+      );
+      expect(() => loadConfig({ cwd, env: {}, flags: { config: "missing.json" } })).toThrow(
+        `Config file not found: ${path.join(cwd, "missing.json")}`
+      );
+    });
+  });
+
+  describe("20.3 Command Line", () => {
+    test("should separate flags from positional arguments", () => {
+      expect(
+        parseArgs(["validate-models", "--log-level", "debug", "models.json", "--storage-dir=./data"])
+      ).toEqual({
+        positionals: ["validate-models", "models.json"],
+        flags: { "log-level": "debug", "storage-dir": "./data" },
+      });
+      expect(() => parseArgs(["--storage-dir"])).toThrow("Missing value for --storage-dir");
+      expect(() => parseArgs(["--storage-dir", "--log-level", "debug"])).toThrow(
+        "Missing value for --storage-dir"
+      );
+    });
+  });
+
+  describe("20.4 Logging", () => {
+    test("should describe each setting with its source", () => {
+      // Act
+      const lines = describeConfig(
+        loadConfig({ cwd, env: {}, flags: { "log-level": "debug" } })
+      );
+
+      // Assert
+      expect(lines[0]).toBe("Configuration:");
+      expect(lines).toContain("  logLevel: debug (cli)");
+      expect(lines).toContain(`  storageDir: ${path.join(cwd, "contexts")} (default)`);
+    });
+
+    test("should drop messages below the log level", () => {
+      // Arrange
+      const spy = jest.spyOn(console, "error").mockImplementation(() => {});
+      const logger = createLogger("warn");
+
+      // Act
+      logger.debug("debug");
+      logger.info("info");
+      logger.warn("warn");
+      logger.error("error", new Error("cause"));
+
+      // Assert
+      expect(spy.mock.calls).toEqual([["warn"], ["error", new Error("cause")]]);
+    });
+
+    test("should send processor messages to the injected logger", async () => {
+      // Arrange
+      const consoleSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+      const messages: string[] = [];
+      const logger: Logger = {
+        debug: () => {},
+        info: () => {},
+        warn: (message) => messages.push(`warn ${message}`),
+        error: (message) => messages.push(`error ${message}`),
+      };
+      const modelsPath = path.join(cwd, "context-models.json");
+      fs.writeFileSync(modelsPath, "{ not json");
+      const processor = new ContextProcessor({
+        storage: new MemoryContextStorage(),
+        modelsPath,
+        pluginsDir: modelsPath,
+        logger,
+      });
+      processor.onChange(() => {
+        throw new Error("listener broke");
+      });
+
+      // Act
+      await processor.save({ title: "A", content: "a" });
+
+      // Assert
+      expect(messages).toEqual([
+        expect.stringMatching(/^error Invalid context model: /),
+        `error Strategy plugins path is not a directory: ${modelsPath}`,
+        "error Context change listener failed:",
+      ]);
+      expect(consoleSpy).not.toHaveBeenCalled();
+    });
+
+    test("should build a server from the configuration", () => {
+      // Arrange
+      const resolved = loadConfig({
+        cwd,
+        env: {},
+        flags: { "models-path": path.join(__dirname, "..", "context-models.json") },
+      });
+
+      // Act & Assert
+      expect(ContextMCPServer.fromConfig(resolved)).toBeInstanceOf(ContextMCPServer);
+      expect(fs.existsSync(path.join(cwd, "contexts"))).toBe(true);
+    });
+  });
+
+  describe("20.5 Server Settings", () => {
+    const startServer = async (flags: Record<string, string> = {}) => {
+      fs.copyFileSync(
+        path.join(__dirname, "..", "context-models.json"),
+        path.join(cwd, "context-models.json")
+      );
+      const resolved = loadConfig({
+        cwd,
+        env: {},
+        flags: { transport: "http", port: "0", "log-level": "error", ...flags },
+      });
+      jest.spyOn(console, "error").mockImplementation(() => {});
+      const server = ContextMCPServer.fromConfig(resolved);
+      await server.start();
+      const client = new Client({ name: "test-client", version: "1.0.0" });
+      await client.connect(new StreamableHTTPClientTransport(new URL(server.url!)));
+      return { resolved, server, client };
+    };
+
+    test("should store contexts in the configured SQLite database", async () => {
+      // Arrange
+      writeConfigFile({ storageType: "sqlite", storageFile: "data/contexts.db" });
+      const { resolved, server, client } = await startServer();
+
+      // Act
+      await client.callTool({
+        name: "save_context",
+        arguments: { title: "Stored", content: "in sqlite" },
+      });
+      await client.close();
+      await server.stop();
+
+      // Assert
+      expect(resolved.config.storageFile).toBe(path.join(cwd, "data", "contexts.db"));
+      const database = new SqliteContextStorage(resolved.config.storageFile);
+      expect(database.list().map((c) => c.title)).toEqual(["Stored"]);
+      database.close();
+      expect(fs.readdirSync(path.join(cwd, "contexts")).sort()).toEqual([".index", ".revisions"]);
+    });
+
+    test("should apply the configured revision retention", async () => {
+      // Arrange
+      const { resolved, server, client } = await startServer({ "max-revisions": "2" });
+      const saved = await client.callTool({
+        name: "save_context",
+        arguments: { title: "Notes", content: "v1" },
+      });
+      const { contextId } = JSON.parse((saved.content as Array<{ text: string }>)[0].text);
+
+      // Act
+      for (const content of ["v2", "v3", "v4"]) {
+        await client.callTool({ name: "update_context", arguments: { contextId, content } });
+      }
+      const listed = await client.callTool({
+        name: "list_revisions",
+        arguments: { contextId },
+      });
+      await client.close();
+      await server.stop();
+
+      // Assert
+      expect(resolved.config.maxRevisions).toBe(2);
+      expect(resolved.sources.maxRevisions).toBe("cli");
+      const { revisions } = JSON.parse((listed.content as Array<{ text: string }>)[0].text);
+      expect(revisions.map((r: { revision: number }) => r.revision)).toEqual([3, 4]);
+    });
+  });
+});
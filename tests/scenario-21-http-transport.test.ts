@@ -0,0 +1,273 @@
+/**
+ * Test Scenario 21: Streamable HTTP Transport
+ *
+ * This test scenario verifies serving MCP over HTTP:
+ * 1. Several clients connect to one server and share its context store
+ * 2. Each client has its own session, which ends when the client closes it
+ * 3. Requests without a valid session or with a foreign Host header are rejected
+ * 4. Oversized bodies are rejected, and idle or failed sessions release their server
+ *
+ * Covers: ContextMCPServer.start with the http transport, startHttpServer
+ */
+
+import * as http from "http";
+import * as path from "path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { loadConfig } from "../src/config";
+import { HttpServerHandle, HttpServerOptions, startHttpServer } from "../src/http-server";
+import { createLogger } from "../src/logger";
+import { ContextMCPServer } from "../src/server";
+import { TestStorageManager } from "./test-utils";
+
+describe("Scenario 21: Streamable HTTP Transport", () => {
+  let storageManager: TestStorageManager;
+  let server: ContextMCPServer;
+  let url: URL;
+  const clients: Client[] = [];
+
+  const connect = async () => {
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    const transport = new StreamableHTTPClientTransport(url);
+    await client.connect(transport);
+    clients.push(client);
+    return { client, transport };
+  };
+
+  const textOf = (result: Awaited<ReturnType<Client["callTool"]>>) =>
+    (result.content as Array<{ text: string }>)[0].text;
+
+  const initializeRequest = {
+    jsonrpc: "2.0",
+    id: 1,
+    method: "initialize",
+    params: {
+      protocolVersion: "2025-03-26",
+      capabilities: {},
+      clientInfo: { name: "raw", version: "1.0.0" },
+    },
+  };
+
+  const post = (headers: Record<string, string>, body: unknown) =>
+    new Promise<{ status: number; body: string }>((resolve, reject) => {
+      const req = http.request(
+        url,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json, text/event-stream",
+            ...headers,
+          },
+        },
+        (res) => {
+          let data = "";
+          res.on("data", (chunk) => (data += chunk));
+          res.on("end", () => resolve({ status: res.statusCode!, body: data }));
+        }
+      );
+      req.on("error", reject);
+      req.end(JSON.stringify(body));
+    });
+
+  beforeEach(async () => {
+    storageManager = new TestStorageManager();
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    server = ContextMCPServer.fromConfig(
+      loadConfig({
+        env: {},
+        flags: {
+          transport: "http",
+          port: "0",
+          "storage-dir": storageManager.getStorageDir(),
+          "models-path": path.join(__dirname, "..", "context-models.json"),
+        },
+      })
+    );
+    await server.start();
+    url = new URL(server.url!);
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.close()));
+    await server.stop();
+    storageManager.cleanup();
+    jest.restoreAllMocks();
+  });
+
+  describe("21.1 Shared Server", () => {
+    test("should listen on localhost by default", () => {
+      expect(url.hostname).toBe("127.0.0.1");
+      expect(url.pathname).toBe("/mcp");
+    });
+
+    test("should share contexts between clients", async () => {
+      // Arrange
+      const first = await connect();
+      const second = await connect();
+
+      // Act
+      const saved = JSON.parse(
+        textOf(
+          await first.client.callTool({
+            name: "save_context",
+            arguments: { title: "Shared", content: "Seen by every agent" },
+          })
+        )
+      );
+      const loaded = JSON.parse(
+        textOf(
+          await second.client.callTool({
+            name: "load_context",
+            arguments: { contextId: saved.contextId },
+          })
+        )
+      );
+
+      // Assert
+      expect(first.transport.sessionId).toBeDefined();
+      expect(second.transport.sessionId).not.toBe(first.transport.sessionId);
+      expect(loaded.context.title).toBe("Shared");
+    });
+  });
+
+  describe("21.2 Sessions", () => {
+    test("should end a session when the client terminates it", async () => {
+      // Arrange
+      const { client, transport } = await connect();
+      const sessionId = transport.sessionId!;
+
+      // Act
+      await transport.terminateSession();
+      await client.close();
+      const response = await post(
+        { "Mcp-Session-Id": sessionId },
+        { jsonrpc: "2.0", id: 1, method: "tools/list" }
+      );
+
+      // Assert
+      expect(response.status).toBe(404);
+      expect(JSON.parse(response.body).error.message).toBe("Session not found");
+    });
+
+    test("should require a session for requests other than initialize", async () => {
+      // Act
+      const response = await post({}, { jsonrpc: "2.0", id: 1, method: "tools/list" });
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(JSON.parse(response.body).error.message).toContain("No valid session ID");
+    });
+  });
+
+  describe("21.3 Host Validation", () => {
+    test("should reject requests for other hosts", async () => {
+      // Act
+      const response = await post(
+        { Host: `evil.example:${url.port}` },
+        {
+          jsonrpc: "2.0",
+          id: 1,
+          method: "initialize",
+          params: {
+            protocolVersion: "2025-03-26",
+            capabilities: {},
+            clientInfo: { name: "rebinding", version: "1.0.0" },
+          },
+        }
+      );
+
+      // Assert
+      expect(response.status).toBe(403);
+      expect(response.body).toContain("Invalid Host header");
+    });
+  });
+
+  describe("21.4 Limits", () => {
+    let handle: HttpServerHandle;
+    let open: Set<McpServer>;
+
+    const startBare = async (options: Partial<HttpServerOptions>) => {
+      open = new Set();
+      handle = await startHttpServer({
+        host: "127.0.0.1",
+        port: 0,
+        createSession: () => {
+          const mcp = new McpServer({ name: "bare", version: "1.0.0" });
+          open.add(mcp);
+          return mcp;
+        },
+        onSessionClosed: (mcp) => open.delete(mcp),
+        logger: createLogger("error"),
+        ...options,
+      });
+      url = new URL(handle.url);
+    };
+
+    const waitFor = async (condition: () => boolean) => {
+      for (let i = 0; i < 100 && !condition(); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+    };
+
+    afterEach(async () => {
+      await Promise.all(clients.splice(0).map((client) => client.close()));
+      await handle.close();
+    });
+
+    test("should reject request bodies over the limit", async () => {
+      // Arrange
+      await startBare({ maxBodyBytes: 100 });
+
+      // Act
+      const response = await post({}, { ...initializeRequest, padding: "x".repeat(200) });
+
+      // Assert
+      expect(response.status).toBe(413);
+      expect(JSON.parse(response.body).error.message).toContain("limited to 100 bytes");
+      expect(open.size).toBe(0);
+    });
+
+    test("should close sessions abandoned by their client", async () => {
+      // Arrange
+      await startBare({ sessionIdleTimeoutMs: 50 });
+      const { client } = await connect();
+      expect(handle.sessionCount()).toBe(1);
+
+      // Act
+      await client.close();
+      await waitFor(() => handle.sessionCount() === 0);
+
+      // Assert
+      expect(handle.sessionCount()).toBe(0);
+      expect(open.size).toBe(0);
+    });
+
+    test("should keep sessions with an open stream", async () => {
+      // Arrange
+      await startBare({ sessionIdleTimeoutMs: 100 });
+      const { client } = await connect();
+
+      // Act
+      await new Promise((resolve) => setTimeout(resolve, 300));
+
+      // Assert
+      expect(handle.sessionCount()).toBe(1);
+      await expect(client.ping()).resolves.toBeDefined();
+    });
+
+    test("should release the server when initialization fails", async () => {
+      // Arrange
+      await startBare({});
+
+      // Act
+      const response = await post({ Host: `evil.example:${url.port}` }, initializeRequest);
+
+      // Assert
+      expect(response.status).toBe(403);
+      expect(handle.sessionCount()).toBe(0);
+      expect(open.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,408 @@
+/**
+ * Test Scenario 22: Token Authentication
+ *
+ * This test scenario verifies bearer tokens on the HTTP transport:
+ * 1. Requests without a known bearer token are rejected
+ * 2. Each tool requires the read, write, delete or admin scope of the token
+ * 3. A session can only be used with the token that started it
+ * 4. Tokens files are validated
+ * 5. Context IDs cannot reach files outside the storage directory
+ *
+ * Covers: TokenStore, missingScope, toolScope, startHttpServer with tokens, tool scope checks,
+ * isValidContextId
+ */
+
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { TokenStore, missingScope, toolScope } from "../src/auth";
+import { loadConfig } from "../src/config";
+import { ContextProcessor } from "../src/processor";
+import { ContextMCPServer } from "../src/server";
+import { ContextStorage, isValidContextId } from "../src/storage";
+import { TestStorageManager } from "./test-utils";
+
+describe("Scenario 22: Token Authentication", () => {
+  let storageManager: TestStorageManager;
+  let server: ContextMCPServer;
+  let tokensFile: string;
+  let url: URL;
+  const clients: Client[] = [];
+
+  const initialize = {
+    jsonrpc: "2.0",
+    id: 1,
+    method: "initialize",
+    params: {
+      protocolVersion: "2025-03-26",
+      capabilities: {},
+      clientInfo: { name: "raw", version: "1.0.0" },
+    },
+  };
+
+  const connect = async (token: string) => {
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    const transport = new StreamableHTTPClientTransport(url, {
+      requestInit: { headers: { Authorization: `Bearer ${token}` } },
+    });
+    await client.connect(transport);
+    clients.push(client);
+    return { client, transport };
+  };
+
+  const textOf = (result: Awaited<ReturnType<Client["callTool"]>>) =>
+    (result.content as Array<{ text: string }>)[0].text;
+
+  const rejectionOf = (promise: Promise<unknown>) =>
+    promise.then(
+      () => {
+        throw new Error("Expected the request to be rejected");
+      },
+      (error: McpError) => error
+    );
+
+  const post = (headers: Record<string, string>, body: unknown) =>
+    new Promise<{ status: number; headers: http.IncomingHttpHeaders; body: string }>(
+      (resolve, reject) => {
+        const req = http.request(
+          url,
+          {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              Accept: "application/json, text/event-stream",
+              ...headers,
+            },
+          },
+          (res) => {
+            let data = "";
+            res.on("data", (chunk) => (data += chunk));
+            res.on("end", () =>
+              resolve({ status: res.statusCode!, headers: res.headers, body: data })
+            );
+          }
+        );
+        req.on("error", reject);
+        req.end(JSON.stringify(body));
+      }
+    );
+
+  beforeEach(async () => {
+    storageManager = new TestStorageManager();
+    fs.mkdirSync(storageManager.getStorageDir(), { recursive: true });
+    const modelsPath = path.join(storageManager.getStorageDir(), "context-models.json");
+    fs.copyFileSync(path.join(__dirname, "..", "context-models.json"), modelsPath);
+    tokensFile = path.join(storageManager.getStorageDir(), "tokens.json");
+    fs.writeFileSync(
+      tokensFile,
+      JSON.stringify({
+        tokens: [
+          { name: "reader", token: "reader-secret", scopes: ["read"] },
+          { name: "writer", token: "writer-secret", scopes: ["read", "write"] },
+          { name: "cleaner", token: "cleaner-secret", scopes: ["read", "delete"] },
+          { name: "admin", token: "admin-secret", scopes: ["admin"] },
+          { name: "owner", token: "owner-secret", scopes: ["read", "write", "delete"] },
+        ],
+      })
+    );
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    server = ContextMCPServer.fromConfig(
+      loadConfig({
+        env: {},
+        flags: {
+          transport: "http",
+          port: "0",
+          "storage-dir": path.join(storageManager.getStorageDir(), "contexts"),
+          "models-path": modelsPath,
+          "tokens-file": tokensFile,
+        },
+      })
+    );
+    await server.start();
+    url = new URL(server.url!);
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.close()));
+    await server.stop();
+    storageManager.cleanup();
+    jest.restoreAllMocks();
+  });
+
+  describe("22.1 Authentication", () => {
+    test("should reject requests without a bearer token", async () => {
+      // Act
+      const response = await post({}, initialize);
+
+      // Assert
+      expect(response.status).toBe(401);
+      expect(response.headers["www-authenticate"]).toContain("Bearer");
+      expect(JSON.parse(response.body).error.message).toBe(
+        "Unauthorized: missing or invalid bearer token"
+      );
+    });
+
+    test("should reject unknown tokens", async () => {
+      // Act
+      const response = await post({ Authorization: "Bearer guessed" }, initialize);
+
+      // Assert
+      expect(response.status).toBe(401);
+    });
+
+    test("should accept a configured token", async () => {
+      // Act
+      const { client } = await connect("reader-secret");
+      const result = await client.callTool({ name: "list_models", arguments: {} });
+
+      // Assert
+      expect(result.isError).toBeFalsy();
+    });
+  });
+
+  describe("22.2 Scopes", () => {
+    test("should reject tools outside the token's scopes", async () => {
+      // Arrange
+      const { client } = await connect("reader-secret");
+
+      // Act
+      const error = await rejectionOf(
+        client.callTool({
+          name: "save_context",
+          arguments: { title: "Denied", content: "Not saved" },
+        })
+      );
+
+      // Assert
+      expect(error).toBeInstanceOf(McpError);
+      expect(error.code).toBe(ErrorCode.InvalidRequest);
+      expect(error.message).toContain(
+        'Insufficient scope: save_context requires the "write" scope'
+      );
+      expect(error.data).toEqual({
+        error: "insufficient_scope",
+        tool: "save_context",
+        requiredScope: "write",
+        grantedScopes: ["read"],
+      });
+    });
+
+    test("should reject resources and prompts with the same error", async () => {
+      // Arrange
+      const { client } = await connect("admin-secret");
+
+      // Act
+      const errors = await Promise.all([
+        rejectionOf(client.listResources()),
+        rejectionOf(
+          client.getPrompt({ name: "review-context-quality", arguments: { contextId: "x" } })
+        ),
+      ]);
+
+      // Assert
+      errors.forEach((error) => {
+        expect(error.code).toBe(ErrorCode.InvalidRequest);
+        expect(error.data).toEqual({
+          error: "insufficient_scope",
+          requiredScope: "read",
+          grantedScopes: ["admin"],
+        });
+      });
+    });
+
+    test("should only let tokens with the delete scope delete contexts", async () => {
+      // Arrange
+      const writer = await connect("writer-secret");
+      const cleaner = await connect("cleaner-secret");
+      const saved = JSON.parse(
+        textOf(
+          await writer.client.callTool({
+            name: "save_context",
+            arguments: { title: "Temporary", content: "Remove me" },
+          })
+        )
+      );
+
+      // Act
+      const denied = await rejectionOf(
+        writer.client.callTool({
+          name: "delete_context",
+          arguments: { contextId: saved.contextId },
+        })
+      );
+      const deleted = await cleaner.client.callTool({
+        name: "delete_context",
+        arguments: { contextId: saved.contextId },
+      });
+
+      // Assert
+      expect(denied.data).toMatchObject({ requiredScope: "delete" });
+      expect(deleted.isError).toBeFalsy();
+      expect(JSON.parse(textOf(deleted)).success).toBe(true);
+    });
+
+    test("should require the admin scope for model management", async () => {
+      // Arrange
+      const writer = await connect("writer-secret");
+      const admin = await connect("admin-secret");
+      const model = { name: "notes", description: "Notes", strategies: [] };
+
+      // Act
+      const denied = await rejectionOf(
+        writer.client.callTool({ name: "create_model", arguments: model })
+      );
+      const created = await admin.client.callTool({ name: "create_model", arguments: model });
+      const adminRead = await rejectionOf(
+        admin.client.callTool({ name: "list_models", arguments: {} })
+      );
+
+      // Assert
+      expect(denied.data).toMatchObject({ requiredScope: "admin" });
+      expect(created.isError).toBeFalsy();
+      expect(adminRead.data).toMatchObject({ requiredScope: "read" });
+    });
+  });
+
+  describe("22.3 Sessions", () => {
+    test("should reject a session used with another token", async () => {
+      // Arrange
+      const { transport } = await connect("reader-secret");
+
+      // Act
+      const response = await post(
+        { Authorization: "Bearer writer-secret", "Mcp-Session-Id": transport.sessionId! },
+        { jsonrpc: "2.0", id: 2, method: "tools/list" }
+      );
+
+      // Assert
+      expect(response.status).toBe(403);
+      expect(JSON.parse(response.body).error.message).toContain("another token");
+    });
+  });
+
+  describe("22.4 Tokens File", () => {
+    test("should name invalid entries", () => {
+      // Arrange
+      fs.writeFileSync(
+        tokensFile,
+        JSON.stringify({ tokens: [{ name: "x", token: "t", scopes: ["root"] }] })
+      );
+
+      // Assert
+      expect(() => TokenStore.fromFile(tokensFile)).toThrow(
+        new RegExp(`^Invalid tokens file ${tokensFile.replace(/[\\^$.*+?()[\]{}|]/g, "\\$&")}: tokens\\.0\\.scopes\\.0: `)
+      );
+    });
+
+    test("should reject duplicate names and token values", () => {
+      expect(
+        () =>
+          new TokenStore([
+            { name: "a", token: "one", scopes: ["read"] },
+            { name: "a", token: "two", scopes: ["read"] },
+          ])
+      ).toThrow('Duplicate token name "a"');
+      expect(
+        () =>
+          new TokenStore([
+            { name: "a", token: "same", scopes: ["read"] },
+            { name: "b", token: "same", scopes: ["write"] },
+          ])
+      ).toThrow('Token "b" reuses the value of another token');
+    });
+
+    test("should allow calls without auth info", () => {
+      expect(missingScope("delete_context", undefined)).toBeUndefined();
+      expect(
+        missingScope("delete_context", { token: "t", clientId: "c", scopes: ["read"] })
+      ).toBe("delete");
+      expect(toolScope("load_context")).toBe("read");
+      expect(toolScope("constructor")).toBe("admin");
+    });
+  });
+
+  describe("22.5 Context IDs", () => {
+    let victim: string;
+
+    beforeEach(() => {
+      victim = path.join(storageManager.getStorageDir(), "victim.json");
+      fs.writeFileSync(
+        victim,
+        JSON.stringify({ id: "victim", title: "Outside", content: "secret", tags: [] })
+      );
+    });
+
+    test("should accept generated and simple IDs only", () => {
+      expect(isValidContextId("0b0f4c2e-8d5c-4f1e-9a51-2f5e0c7d1a9b")).toBe(true);
+      expect(isValidContextId("ctx-design.v2")).toBe(true);
+      for (const id of ["../victim", "..", "a/b", "a\\b", ".hidden", "", "a".repeat(129)]) {
+        expect(isValidContextId(id)).toBe(false);
+      }
+    });
+
+    test("should not load or delete files outside the storage directory", async () => {
+      // Arrange
+      const { client } = await connect("owner-secret");
+
+      // Act
+      const results = [
+        await client.callTool({ name: "load_context", arguments: { contextId: "../victim" } }),
+        await client.callTool({ name: "delete_context", arguments: { contextId: "../victim" } }),
+        await client.callTool({ name: "delete_context", arguments: { contextId: "../tokens" } }),
+        await client.callTool({
+          name: "update_context",
+          arguments: { contextId: "../victim", content: "overwritten" },
+        }),
+        await client.callTool({
+          name: "get_revision",
+          arguments: { contextId: "../victim", revision: 1 },
+        }),
+      ];
+
+      // Assert
+      results.forEach((result) => {
+        expect(result.isError).toBe(true);
+        expect(textOf(result)).toContain("Invalid context ID");
+      });
+      expect(JSON.parse(fs.readFileSync(victim, "utf-8")).content).toBe("secret");
+      expect(fs.existsSync(tokensFile)).toBe(true);
+    });
+
+    test("should not read resources outside the storage directory", async () => {
+      // Arrange
+      const { client } = await connect("owner-secret");
+
+      // Assert
+      await expect(
+        client.readResource({ uri: `context://${encodeURIComponent("../victim")}` })
+      ).rejects.toThrow("Invalid context ID");
+      await expect(
+        client.getPrompt({
+          name: "build-brief-from-contexts",
+          arguments: { contextIds: "../victim" },
+        })
+      ).rejects.toThrow("Invalid context IDs: ../victim");
+    });
+
+    test("should reject unsafe IDs in storage and the processor", async () => {
+      // Arrange
+      const storage = new ContextStorage(path.join(storageManager.getStorageDir(), "contexts"));
+      const processor = new ContextProcessor({
+        storageDir: path.join(storageManager.getStorageDir(), "contexts"),
+        modelsPath: path.join(storageManager.getStorageDir(), "context-models.json"),
+      });
+
+      // Act & Assert
+      expect(() => storage.load("../victim")).toThrow('Invalid context ID: "../victim"');
+      expect(() => storage.delete("../victim")).toThrow("Invalid context ID");
+      await expect(
+        processor.save({ id: "../victim", title: "X", content: "overwritten" })
+      ).rejects.toThrow("Invalid context ID");
+      expect(() => processor.listRevisions("../victim")).toThrow("Invalid context ID");
+      expect(fs.existsSync(victim)).toBe(true);
+    });
+  });
+});
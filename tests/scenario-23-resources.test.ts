@@ -0,0 +1,236 @@
+/**
+ * Test Scenario 23: Context Resources
+ *
+ * This test scenario verifies that contexts are exposed as MCP resources:
+ * 1. `context://{id}` reads a context and `context://tag/{tag}` every context with a tag
+ * 2. `resources/list` pages through the stored contexts
+ * 3. Subscribed clients are notified when a context or tag changes
+ *
+ * Covers: ContextMCPServer resources, ContextProcessor.onChange, contextUri, tagUri
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import {
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { loadConfig } from "../src/config";
+import { ContextProcessor } from "../src/processor";
+import { RESOURCE_PAGE_SIZE, contextUri, tagUri } from "../src/resources";
+import { ContextMCPServer } from "../src/server";
+import { ContextChange } from "../src/types";
+import { TestStorageManager } from "./test-utils";
+
+describe("Scenario 23: Context Resources", () => {
+  let storageManager: TestStorageManager;
+  let processor: ContextProcessor;
+  let server: ContextMCPServer;
+  let client: Client;
+
+  const textOf = (contents: Array<Record<string, unknown>>) =>
+    contents.map((content) => content.text as string);
+
+  const waitFor = async (condition: () => boolean) => {
+    for (let i = 0; i < 100 && !condition(); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  };
+
+  beforeEach(async () => {
+    storageManager = new TestStorageManager();
+    const baseDir = storageManager.getStorageDir();
+    fs.mkdirSync(baseDir, { recursive: true });
+    const modelsPath = path.join(baseDir, "context-models.json");
+    fs.copyFileSync(path.join(__dirname, "..", "context-models.json"), modelsPath);
+    processor = new ContextProcessor({
+      storageDir: path.join(baseDir, "contexts"),
+      modelsPath,
+    });
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    server = new ContextMCPServer(processor, {
+      config: loadConfig({ env: {}, flags: { transport: "http", port: "0" } }),
+    });
+    await server.start();
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(new StreamableHTTPClientTransport(new URL(server.url!)));
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.stop();
+    storageManager.cleanup();
+    jest.restoreAllMocks();
+  });
+
+  describe("23.1 Reading", () => {
+    test("should advertise the context and tag templates", async () => {
+      // Act
+      const { resourceTemplates } = await client.listResourceTemplates();
+
+      // Assert
+      expect(resourceTemplates.map((t) => t.uriTemplate).sort()).toEqual([
+        "context://tag/{tag}",
+        "context://{id}",
+      ]);
+    });
+
+    test("should read a context as markdown", async () => {
+      // Arrange
+      const saved = await processor.save({
+        title: "Deploy Guide",
+        content: "Run the pipeline",
+        tags: ["ops", "deploy"],
+      });
+
+      // Act
+      const { contents } = await client.readResource({ uri: contextUri(saved.id) });
+
+      // Assert
+      expect(contents).toHaveLength(1);
+      expect(contents[0].uri).toBe(`context://${saved.id}`);
+      expect(contents[0].mimeType).toBe("text/markdown");
+      expect(textOf(contents)[0]).toBe(
+        "# Deploy Guide\n\nTags: ops, deploy\n\nRun the pipeline"
+      );
+    });
+
+    test("should read every context with a tag", async () => {
+      // Arrange
+      const first = await processor.save({ title: "A", content: "a", tags: ["team notes"] });
+      const second = await processor.save({ title: "B", content: "b", tags: ["team notes"] });
+      await processor.save({ title: "C", content: "c", tags: ["other"] });
+
+      // Act
+      const { contents } = await client.readResource({ uri: tagUri("team notes") });
+
+      // Assert
+      expect(contents.map((c) => c.uri)).toEqual([
+        contextUri(first.id),
+        contextUri(second.id),
+      ]);
+    });
+
+    test("should reject unknown contexts", async () => {
+      await expect(
+        client.readResource({ uri: "context://missing" })
+      ).rejects.toThrow("Context not found: context://missing");
+    });
+  });
+
+  describe("23.2 Listing", () => {
+    test("should page through the contexts", async () => {
+      // Arrange
+      for (let i = 0; i < RESOURCE_PAGE_SIZE + 5; i++) {
+        await processor.save({ title: `Context ${i}`, content: `Content ${i}` });
+      }
+
+      // Act
+      const first = await client.listResources();
+      const second = await client.listResources({ cursor: first.nextCursor });
+
+      // Assert
+      expect(first.resources).toHaveLength(RESOURCE_PAGE_SIZE);
+      expect(first.resources[0]).toMatchObject({
+        name: "Context 0",
+        mimeType: "text/markdown",
+      });
+      expect(second.resources.map((r) => r.name)).toEqual(
+        [50, 51, 52, 53, 54].map((i) => `Context ${i}`)
+      );
+      expect(second.nextCursor).toBeUndefined();
+    });
+
+    test("should reject malformed cursors", async () => {
+      await expect(client.listResources({ cursor: "nonsense" })).rejects.toThrow();
+    });
+  });
+
+  describe("23.3 Notifications", () => {
+    test("should notify subscribers when a context or its tags change", async () => {
+      // Arrange
+      const updated: string[] = [];
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+        updated.push(notification.params.uri);
+      });
+      const saved = await processor.save({ title: "Notes", content: "v1", tags: ["draft"] });
+      await client.subscribeResource({ uri: contextUri(saved.id) });
+      await client.subscribeResource({ uri: tagUri("draft") });
+      await client.subscribeResource({ uri: tagUri("final") });
+
+      // Act
+      await client.callTool({
+        name: "update_context",
+        arguments: { contextId: saved.id, content: "v2", tags: ["final"] },
+      });
+      await waitFor(() => updated.length === 3);
+
+      // Assert
+      expect(updated.sort()).toEqual(
+        [contextUri(saved.id), tagUri("draft"), tagUri("final")].sort()
+      );
+    });
+
+    test("should stop notifying after unsubscribing", async () => {
+      // Arrange
+      const updated: string[] = [];
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+        updated.push(notification.params.uri);
+      });
+      const saved = await processor.save({ title: "Notes", content: "v1" });
+      await client.subscribeResource({ uri: contextUri(saved.id) });
+      await client.unsubscribeResource({ uri: contextUri(saved.id) });
+
+      // Act
+      await processor.update({ contextId: saved.id, content: "v2" });
+      await client.listResources();
+
+      // Assert
+      expect(updated).toEqual([]);
+    });
+
+    test("should announce list changes when contexts are created or deleted", async () => {
+      // Arrange
+      let listChanges = 0;
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+        listChanges++;
+      });
+      // Notifications outside a request need the client's SSE stream
+      await client.listResources();
+
+      // Act
+      const saved = await processor.save({ title: "Short-lived", content: "x" });
+      processor.delete(saved.id);
+      await waitFor(() => listChanges === 2);
+
+      // Assert
+      expect(listChanges).toBe(2);
+    });
+
+    test("should report every change to processor listeners", async () => {
+      // Arrange
+      const changes: ContextChange[] = [];
+      const stop = processor.onChange((change) => changes.push(change));
+
+      // Act
+      const saved = await processor.save({ title: "A", content: "v1" });
+      await processor.update({ contextId: saved.id, content: "v2" });
+      processor.restoreRevision({ contextId: saved.id, revision: 1 });
+      processor.delete(saved.id);
+      stop();
+      await processor.save({ title: "B", content: "unseen" });
+
+      // Assert
+      expect(changes.map((c) => c.type)).toEqual([
+        "created",
+        "updated",
+        "updated",
+        "deleted",
+      ]);
+      expect(changes[1].previous!.content).toBe("v1");
+      expect(changes[3].context.content).toBe("v1");
+    });
+  });
+});
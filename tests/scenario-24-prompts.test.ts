@@ -0,0 +1,191 @@
+/**
+ * Test Scenario 24: Workflow Prompts
+ *
+ * This test scenario verifies the MCP prompts for context workflows:
+ * 1. The prompts are listed with their arguments
+ * 2. Each prompt embeds the contexts it works on as resources
+ * 3. Unknown tags and contexts are rejected
+ *
+ * Covers: ContextMCPServer prompts, summarizeTaggedContextsPrompt, buildBriefPrompt,
+ * reviewContextQualityPrompt
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { loadConfig } from "../src/config";
+import { ContextProcessor } from "../src/processor";
+import { contextUri } from "../src/resources";
+import { ContextMCPServer } from "../src/server";
+import { TestStorageManager } from "./test-utils";
+
+describe("Scenario 24: Workflow Prompts", () => {
+  let storageManager: TestStorageManager;
+  let processor: ContextProcessor;
+  let server: ContextMCPServer;
+  let client: Client;
+
+  type Messages = Awaited<ReturnType<Client["getPrompt"]>>["messages"];
+
+  const embeddedUris = (messages: Messages) =>
+    messages
+      .map((message) => message.content)
+      .filter((content) => content.type === "resource")
+      .map((content) => (content as { resource: { uri: string } }).resource.uri);
+
+  const instructionOf = (messages: Messages) =>
+    (messages[0].content as { text: string }).text;
+
+  beforeEach(async () => {
+    storageManager = new TestStorageManager();
+    const baseDir = storageManager.getStorageDir();
+    fs.mkdirSync(baseDir, { recursive: true });
+    const modelsPath = path.join(baseDir, "context-models.json");
+    fs.copyFileSync(path.join(__dirname, "..", "context-models.json"), modelsPath);
+    processor = new ContextProcessor({
+      storageDir: path.join(baseDir, "contexts"),
+      modelsPath,
+    });
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    server = new ContextMCPServer(processor, {
+      config: loadConfig({ env: {}, flags: { transport: "http", port: "0" } }),
+    });
+    await server.start();
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(new StreamableHTTPClientTransport(new URL(server.url!)));
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.stop();
+    storageManager.cleanup();
+    jest.restoreAllMocks();
+  });
+
+  describe("24.1 Listing", () => {
+    test("should list the prompts with their arguments", async () => {
+      // Act
+      const { prompts } = await client.listPrompts();
+
+      // Assert
+      expect(prompts.map((p) => p.name).sort()).toEqual([
+        "build-brief-from-contexts",
+        "review-context-quality",
+        "summarize-tagged-contexts",
+      ]);
+      const brief = prompts.find((p) => p.name === "build-brief-from-contexts")!;
+      expect(brief.arguments!.map((a) => [a.name, a.required])).toEqual([
+        ["contextIds", true],
+        ["goal", false],
+        ["audience", false],
+      ]);
+    });
+  });
+
+  describe("24.2 Summarize Tagged Contexts", () => {
+    test("should embed the tagged contexts, most recently updated first", async () => {
+      // Arrange
+      const older = await processor.save({ title: "Older", content: "a", tags: ["ops"] });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      const newer = await processor.save({ title: "Newer", content: "b", tags: ["ops"] });
+      await processor.save({ title: "Other", content: "c", tags: ["misc"] });
+
+      // Act
+      const { messages } = await client.getPrompt({
+        name: "summarize-tagged-contexts",
+        arguments: { tag: "ops" },
+      });
+
+      // Assert
+      expect(instructionOf(messages)).toContain('all 2 context(s) tagged "ops"');
+      expect(embeddedUris(messages)).toEqual([contextUri(newer.id), contextUri(older.id)]);
+    });
+
+    test("should honor the limit", async () => {
+      // Arrange
+      for (const title of ["One", "Two", "Three"]) {
+        await processor.save({ title, content: title, tags: ["ops"] });
+      }
+
+      // Act
+      const { messages } = await client.getPrompt({
+        name: "summarize-tagged-contexts",
+        arguments: { tag: "ops", limit: "2" },
+      });
+
+      // Assert
+      expect(embeddedUris(messages)).toHaveLength(2);
+      expect(instructionOf(messages)).toContain("2 most recently updated of 3 contexts");
+    });
+
+    test("should reject tags without contexts and invalid limits", async () => {
+      await expect(
+        client.getPrompt({ name: "summarize-tagged-contexts", arguments: { tag: "none" } })
+      ).rejects.toThrow('No contexts tagged "none"');
+      await expect(
+        client.getPrompt({
+          name: "summarize-tagged-contexts",
+          arguments: { tag: "ops", limit: "0" },
+        })
+      ).rejects.toThrow("Expected a positive integer");
+    });
+  });
+
+  describe("24.3 Build Brief", () => {
+    test("should embed the chosen contexts in order with the goal", async () => {
+      // Arrange
+      const first = await processor.save({ title: "Design", content: "Use queues" });
+      const second = await processor.save({ title: "Incident", content: "Queue backlog" });
+
+      // Act
+      const { messages } = await client.getPrompt({
+        name: "build-brief-from-contexts",
+        arguments: {
+          contextIds: `${second.id}, ${first.id}`,
+          goal: "Plan the migration",
+        },
+      });
+
+      // Assert
+      expect(embeddedUris(messages)).toEqual([contextUri(second.id), contextUri(first.id)]);
+      expect(instructionOf(messages)).toContain("Goal of the brief: Plan the migration");
+      expect(instructionOf(messages)).not.toContain("Audience");
+    });
+
+    test("should name missing contexts", async () => {
+      // Arrange
+      const saved = await processor.save({ title: "Design", content: "Use queues" });
+
+      // Assert
+      await expect(
+        client.getPrompt({
+          name: "build-brief-from-contexts",
+          arguments: { contextIds: `${saved.id} missing-1 missing-2` },
+        })
+      ).rejects.toThrow("Contexts not found: missing-1, missing-2");
+    });
+  });
+
+  describe("24.4 Review Context Quality", () => {
+    test("should embed the context with its annotations", async () => {
+      // Arrange
+      const saved = await processor.save(
+        { title: "Handover", content: "It should be fixed by them soon.", tags: ["team"] },
+        "clarify"
+      );
+
+      // Act
+      const { messages } = await client.getPrompt({
+        name: "review-context-quality",
+        arguments: { contextId: saved.id },
+      });
+
+      // Assert
+      expect(messages).toHaveLength(2);
+      expect(instructionOf(messages)).toContain("tags (team)");
+      const resource = (messages[1].content as { resource: { text: string } }).resource;
+      expect(resource.text).toContain("[ORIGINAL CONTENT]");
+    });
+  });
+});
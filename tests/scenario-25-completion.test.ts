@@ -0,0 +1,182 @@
+/**
+ * Test Scenario 25: Argument Completion
+ *
+ * This test scenario verifies completion of argument values:
+ * 1. Model names complete from the loaded models
+ * 2. Tags complete from the tags in storage
+ * 3. Context IDs complete by ID or title prefix, most recently updated first
+ * 4. Completion works for prompt arguments, resource templates and tool arguments
+ *
+ * Covers: completeArgument, ContextProcessor.listTags, completion/complete
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { CompleteResultSchema } from "@modelcontextprotocol/sdk/types.js";
+import { MAX_COMPLETIONS, completeArgument } from "../src/completion";
+import { loadConfig } from "../src/config";
+import { ContextProcessor } from "../src/processor";
+import { ContextMCPServer } from "../src/server";
+import { TestStorageManager } from "./test-utils";
+
+describe("Scenario 25: Argument Completion", () => {
+  let storageManager: TestStorageManager;
+  let processor: ContextProcessor;
+
+  beforeEach(() => {
+    storageManager = new TestStorageManager();
+    const baseDir = storageManager.getStorageDir();
+    fs.mkdirSync(baseDir, { recursive: true });
+    const modelsPath = path.join(baseDir, "context-models.json");
+    fs.copyFileSync(path.join(__dirname, "..", "context-models.json"), modelsPath);
+    processor = new ContextProcessor({
+      storageDir: path.join(baseDir, "contexts"),
+      modelsPath,
+    });
+  });
+
+  afterEach(() => {
+    storageManager.cleanup();
+  });
+
+  describe("25.1 Values", () => {
+    test("should complete model names", () => {
+      // Act
+      const result = completeArgument(processor, "modelName", "C");
+
+      // Assert
+      expect(result.values.sort()).toEqual(["clarify", "comprehensive"]);
+      expect(result.hasMore).toBe(false);
+    });
+
+    test("should complete tags from storage", async () => {
+      // Arrange
+      await processor.save({ title: "A", content: "a", tags: ["deploy", "design"] });
+      await processor.save({ title: "B", content: "b", tags: ["deploy", "ops"] });
+
+      // Act & Assert
+      expect(processor.listTags()).toEqual(["deploy", "design", "ops"]);
+      expect(completeArgument(processor, "tag", "de").values).toEqual(["deploy", "design"]);
+      expect(completeArgument(processor, "addTags", "o").values).toEqual(["ops"]);
+    });
+
+    test("should complete context IDs by ID or title prefix", async () => {
+      // Arrange
+      const design = await processor.save({
+        id: "ctx-design",
+        title: "Queue design",
+        content: "a",
+      });
+      const incident = await processor.save({
+        id: "ctx-incident",
+        title: "Outage",
+        content: "b",
+      });
+      await processor.update({ contextId: incident.id, content: "b2" });
+
+      // Act & Assert
+      expect(completeArgument(processor, "contextId", "queue").values).toEqual([design.id]);
+      expect(completeArgument(processor, "contextId", "ctx-").values).toEqual([
+        incident.id,
+        design.id,
+      ]);
+      expect(completeArgument(processor, "contextIds", "ctx-design, out").values).toEqual([
+        "ctx-design, ctx-incident",
+      ]);
+    });
+
+    test("should cap the values and report the total", async () => {
+      // Arrange
+      const tags = Array.from({ length: MAX_COMPLETIONS + 5 }, (_, i) => `tag-${i}`);
+      await processor.save({ title: "Tagged", content: "x", tags });
+
+      // Act
+      const result = completeArgument(processor, "tags", "tag-");
+
+      // Assert
+      expect(result.values).toHaveLength(MAX_COMPLETIONS);
+      expect(result.total).toBe(MAX_COMPLETIONS + 5);
+      expect(result.hasMore).toBe(true);
+      expect(completeArgument(processor, "title", "T").values).toEqual([]);
+    });
+
+    test("should not complete arguments named after object members", () => {
+      // Act & Assert
+      for (const name of ["constructor", "toString", "__proto__"]) {
+        expect(completeArgument(processor, name, "")).toEqual({
+          values: [],
+          total: 0,
+          hasMore: false,
+        });
+      }
+    });
+  });
+
+  describe("25.2 Protocol", () => {
+    let server: ContextMCPServer;
+    let client: Client;
+
+    beforeEach(async () => {
+      jest.spyOn(console, "error").mockImplementation(() => {});
+      server = new ContextMCPServer(processor, {
+        config: loadConfig({ env: {}, flags: { transport: "http", port: "0" } }),
+      });
+      await server.start();
+      client = new Client({ name: "test-client", version: "1.0.0" });
+      await client.connect(new StreamableHTTPClientTransport(new URL(server.url!)));
+    });
+
+    afterEach(async () => {
+      await client.close();
+      await server.stop();
+      jest.restoreAllMocks();
+    });
+
+    test("should complete prompt arguments", async () => {
+      // Arrange
+      await processor.save({ title: "A", content: "a", tags: ["ops"] });
+
+      // Act
+      const { completion } = await client.complete({
+        ref: { type: "ref/prompt", name: "summarize-tagged-contexts" },
+        argument: { name: "tag", value: "o" },
+      });
+
+      // Assert
+      expect(completion.values).toEqual(["ops"]);
+    });
+
+    test("should complete resource template variables", async () => {
+      // Arrange
+      const saved = await processor.save({ title: "Runbook", content: "a" });
+
+      // Act
+      const { completion } = await client.complete({
+        ref: { type: "ref/resource", uri: "context://{id}" },
+        argument: { name: "id", value: "run" },
+      });
+
+      // Assert
+      expect(completion.values).toEqual([saved.id]);
+    });
+
+    test("should complete tool arguments", async () => {
+      // Act
+      const { completion } = await client.request(
+        {
+          method: "completion/complete",
+          params: {
+            ref: { type: "ref/tool", name: "save_context" },
+            argument: { name: "modelName", value: "sea" },
+          },
+        },
+        CompleteResultSchema
+      );
+
+      // Assert
+      expect(completion.values).toEqual(["search_optimized"]);
+    });
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Test Scenario 4: Library API
+ *
+ * This test scenario verifies the embeddable ContextProcessor API:
+ * 1. Save, load, list, search and delete through the processor
+ * 2. Model-based pre-processing on save
+ * 3. Model discovery (listModels, getModelInfo)
+ * 4. Importing the package has no side effects
+ * 5. Partial updates that keep id and createdAt
+ *
+ * Covers: ContextProcessor, public exports from src/index.ts
+ */
+
+import * as path from "path";
+import { ContextProcessor } from "../src/processor";
+import { TestStorageManager, TestAssertions } from "./test-utils";
+
+describe("Scenario 4: Library API", () => {
+  let storageManager: TestStorageManager;
+  let processor: ContextProcessor;
+
+  beforeEach(() => {
+    storageManager = new TestStorageManager();
+    processor = new ContextProcessor({
+      storageDir: storageManager.getStorageDir(),
+      modelsPath: path.join(__dirname, "..", "context-models.json"),
+    });
+  });
+
+  afterEach(() => {
+    storageManager.cleanup();
+  });
+
+  describe("4.1 Basic Operations", () => {
+    test("should save and load a context", async () => {
+      // Act
+      const saved = await processor.save({
+        title: "Getting Started",
+        content: "React is a library for building user interfaces.",
+        tags: ["react"],
+        metadata: { category: "tutorial" },
+      });
+      const loaded = processor.load(saved.id);
+
+      // Assert
+      TestAssertions.assertContextSaved(loaded!);
+      expect(loaded!.title).toBe("Getting Started");
+      expect(loaded!.metadata).toEqual({ category: "tutorial" });
+      expect(saved.appliedStrategies).toEqual([]);
+      expect(saved.processedContent).toBeUndefined();
+    });
+
+    test("should list, search and delete contexts", async () => {
+      // Arrange
+      const first = await processor.save({ title: "A", content: "a", tags: ["x"] });
+      await processor.save({ title: "B", content: "b", tags: ["y"] });
+
+      // Act & Assert
+      expect(processor.list()).toHaveLength(2);
+      expect(processor.list({ limit: 1 })).toHaveLength(1);
+      expect(processor.search({ tags: ["x"] }).map((c) => c.id)).toEqual([
+        first.id,
+      ]);
+      expect(processor.delete(first.id)).toBe(true);
+      expect(processor.load(first.id)).toBeNull();
+      expect(processor.count()).toBe(1);
+    });
+
+    test("should overwrite an existing context when saving with its id", async () => {
+      // Arrange
+      const original = await processor.save({ title: "Original", content: "v1" });
+
+      // Act
+      const updated = await processor.save({
+        id: original.id,
+        title: "Updated",
+        content: "v2",
+      });
+
+      // Assert
+      expect(updated.id).toBe(original.id);
+      expect(updated.createdAt).toBe(original.createdAt);
+      expect(processor.load(original.id)!.title).toBe("Updated");
+      expect(processor.list()).toHaveLength(1);
+    });
+
+    test("should find related contexts by shared tags", async () => {
+      // Arrange
+      const api = await processor.save({ title: "API", content: "a", tags: ["api"] });
+      await processor.save({ title: "Auth", content: "b", tags: ["api", "auth"] });
+      await processor.save({ title: "Other", content: "c", tags: ["misc"] });
+
+      // Act
+      const related = processor.related(api);
+
+      // Assert
+      expect(related.map((c) => c.title)).toEqual(["Auth"]);
+    });
+  });
+
+  describe("4.2 Model-Based Processing", () => {
+    test("should apply model strategies when a model name is given", async () => {
+      // Act
+      const saved = await processor.save(
+        {
+          title: "Processed",
+          content: "The system basically works well for most users.",
+        },
+        "comprehensive"
+      );
+
+      // Assert
+      expect(saved.appliedStrategies).toEqual(["clarify", "analyze", "search"]);
+      expect(saved.processedContent).toBeDefined();
+      expect(processor.load(saved.id, "rendered")!.content).toBe(
+        saved.processedContent
+      );
+    });
+
+    test("should read the model name from the request", async () => {
+      // Act
+      const saved = await processor.save({
+        title: "Processed",
+        content: "Some content to analyze.",
+        modelName: "analysis",
+      });
+
+      // Assert
+      expect(saved.appliedStrategies).toEqual(["analyze"]);
+      expect(saved.strategyResults[0].output).toMatchObject({
+        type: "analyze",
+        wordCount: 4,
+      });
+    });
+  });
+
+  describe("4.3 Model Discovery", () => {
+    test("should list models with strategy names", () => {
+      // Act
+      const models = processor.listModels();
+
+      // Assert
+      const comprehensive = models.find((m) => m.name === "comprehensive");
+      expect(comprehensive).toBeDefined();
+      expect(comprehensive!.strategies).toEqual(["clarify", "analyze", "search"]);
+    });
+
+    test("should return null for unknown models", () => {
+      expect(processor.getModelInfo("does-not-exist")).toBeNull();
+      expect(processor.getModelInfo("clarify")!.description).toBeDefined();
+    });
+
+    test("should fall back to default models without a config file", () => {
+      // Arrange
+      const defaultsProcessor = new ContextProcessor({
+        storageDir: storageManager.getStorageDir(),
+        modelsPath: path.join(storageManager.getStorageDir(), "missing.json"),
+      });
+
+      // Assert
+      expect(defaultsProcessor.listModels().map((m) => m.name)).toEqual([
+        "clarify",
+        "enhance_search",
+        "comprehensive",
+      ]);
+    });
+  });
+
+  describe("4.4 Package Entry Point", () => {
+    test("should export the library API without starting a server", async () => {
+      // Act
+      const lib = await import("../src/index");
+
+      // Assert
+      expect(lib.ContextProcessor).toBe(ContextProcessor);
+      expect(lib.ContextMCPServer).toBeDefined();
+      expect(lib.ContextStorage).toBeDefined();
+    });
+  });
+
+  describe("4.5 Updating Contexts", () => {
+    test("should patch fields and keep id and createdAt", async () => {
+      // Arrange
+      const original = await processor.save({
+        title: "Original",
+        content: "v1",
+        tags: ["draft", "api"],
+        metadata: { owner: "a", stale: true },
+      });
+
+      // Act
+      const updated = await processor.update({
+        contextId: original.id,
+        content: "v2",
+        addTags: ["reviewed", "api"],
+        removeTags: ["draft"],
+        metadata: { owner: "b", stale: null },
+      });
+
+      // Assert
+      expect(updated!.id).toBe(original.id);
+      expect(updated!.createdAt).toBe(original.createdAt);
+      expect(updated!.updatedAt).toBeGreaterThan(original.updatedAt);
+      expect(updated!.title).toBe("Original");
+      expect(updated!.tags).toEqual(["api", "reviewed"]);
+      expect(updated!.metadata).toEqual({ owner: "b" });
+      expect(processor.load(original.id)!.content).toBe("v2");
+    });
+
+    test("should replace tags before applying add and remove", async () => {
+      // Arrange
+      const original = await processor.save({ title: "T", content: "c", tags: ["a"] });
+
+      // Act
+      const updated = await processor.update({
+        contextId: original.id,
+        tags: ["x", "y"],
+        removeTags: ["y"],
+      });
+
+      // Assert
+      expect(updated!.tags).toEqual(["x"]);
+    });
+
+    test("should re-run model strategies on the new content", async () => {
+      // Arrange
+      const original = await processor.save({ title: "T", content: "plain" });
+
+      // Act
+      const updated = await processor.update({
+        contextId: original.id,
+        content: "Updated content to analyze.",
+        modelName: "analysis",
+      });
+
+      // Assert
+      expect(updated!.appliedStrategies).toEqual(["analyze"]);
+      expect(updated!.content).toBe("Updated content to analyze.");
+      expect(updated!.annotations!.map((a) => a.label)).toEqual([
+        "CONTENT ANALYSIS",
+      ]);
+    });
+
+    test("should return null for unknown contexts", async () => {
+      expect(await processor.update({ contextId: "missing", title: "x" })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * Test Scenario 5: Pluggable Storage Backends
+ *
+ * This test scenario verifies the storage adapter contract:
+ * 1. File, in-memory and SQLite adapters behave identically
+ * 2. Backends are selected by configuration
+ * 3. Custom backends can be registered
+ * 4. SQLite adapter indexes tags, migrates older databases and imports existing directories
+ *
+ * Covers: StorageAdapter, ContextStorage, MemoryContextStorage,
+ * SqliteContextStorage, createStorage
+ */
+
+import * as path from "path";
+import Database from "better-sqlite3";
+import {
+  ContextStorage,
+  MemoryContextStorage,
+  createStorage,
+  registerStorageBackend,
+} from "../src/storage";
+import { SqliteContextStorage } from "../src/sqlite-storage";
+import { ContextProcessor } from "../src/processor";
+import { StorageAdapter } from "../src/types";
+import { TestDataGenerator, TestStorageManager } from "./test-utils";
+
+describe("Scenario 5: Pluggable Storage Backends", () => {
+  let storageManager: TestStorageManager;
+  let sqliteStores: SqliteContextStorage[];
+
+  const openSqlite = (): SqliteContextStorage => {
+    const store = new SqliteContextStorage(
+      path.join(storageManager.getStorageDir(), "contexts.db")
+    );
+    sqliteStores.push(store);
+    return store;
+  };
+
+  beforeEach(() => {
+    storageManager = new TestStorageManager();
+    sqliteStores = [];
+  });
+
+  afterEach(() => {
+    sqliteStores.forEach((store) => store.close());
+    storageManager.cleanup();
+  });
+
+  const adapters: [string, () => StorageAdapter][] = [
+    ["file", () => storageManager.createTestStorage()],
+    ["memory", () => new MemoryContextStorage()],
+    ["sqlite", () => openSqlite()],
+  ];
+
+  describe.each(adapters)("5.1 Adapter Contract (%s)", (_name, create) => {
+    let storage: StorageAdapter;
+
+    beforeEach(() => {
+      storage = create();
+    });
+
+    test("should save, load and delete contexts", () => {
+      // Arrange
+      const context = TestDataGenerator.generateContextItem();
+
+      // Act
+      storage.save(context);
+
+      // Assert
+      expect(storage.load(context.id)).toEqual(context);
+      expect(storage.delete(context.id)).toBe(true);
+      expect(storage.delete(context.id)).toBe(false);
+      expect(storage.load(context.id)).toBeNull();
+    });
+
+    test("should list and search by tags with pagination", () => {
+      // Arrange
+      TestDataGenerator.generateContextItems(5, ["shared"]).forEach((ctx) =>
+        storage.save(ctx)
+      );
+
+      // Act & Assert
+      expect(storage.list()).toHaveLength(5);
+      expect(storage.search(["context-2"])).toHaveLength(1);
+      expect(storage.search(["shared"], 2, 1)).toHaveLength(2);
+      expect(storage.search(["missing"])).toHaveLength(0);
+      expect(storage.count!()).toBe(5);
+      expect(storage.count!(["context-1", "context-3"])).toBe(2);
+    });
+
+    test("should not expose stored state to caller mutation", () => {
+      // Arrange
+      const context = TestDataGenerator.generateContextItem({ tags: ["a"] });
+      storage.save(context);
+
+      // Act
+      context.tags.push("mutated");
+      storage.load(context.id)!.tags.push("mutated-again");
+
+      // Assert
+      expect(storage.load(context.id)!.tags).toEqual(["a"]);
+    });
+  });
+
+  describe("5.2 Backend Configuration", () => {
+    test("should create adapters by type", () => {
+      expect(createStorage({ type: "memory" })).toBeInstanceOf(MemoryContextStorage);
+      expect(
+        createStorage({ type: "file", directory: storageManager.getStorageDir() })
+      ).toBeInstanceOf(ContextStorage);
+    });
+
+    test("should reject unknown backend types", () => {
+      expect(() => createStorage({ type: "nope" })).toThrow(
+        /Unknown storage backend "nope"/
+      );
+    });
+
+    test("should use registered custom backends", async () => {
+      // Arrange
+      const custom = new MemoryContextStorage();
+      registerStorageBackend("custom-test", () => custom);
+
+      // Act
+      const processor = new ContextProcessor({ storage: { type: "custom-test" } });
+      const saved = await processor.save({ title: "Custom", content: "c" });
+
+      // Assert
+      expect(custom.load(saved.id)!.title).toBe("Custom");
+    });
+
+    test("should count with adapters that do not implement count", async () => {
+      // Arrange
+      const memory = new MemoryContextStorage();
+      const adapter: StorageAdapter = {
+        save: (context) => memory.save(context),
+        load: (id) => memory.load(id),
+        list: () => memory.list(),
+        delete: (id) => memory.delete(id),
+        search: (tags, limit, offset) => memory.search(tags, limit, offset),
+      };
+      const processor = new ContextProcessor({ storage: adapter });
+      await processor.save({ title: "A", content: "a", tags: ["x"] });
+      await processor.save({ title: "B", content: "b" });
+
+      // Act
+      const page = processor.listPage({ tags: ["x"], limit: 1 });
+
+      // Assert
+      expect(page.total).toBe(1);
+      expect(processor.count()).toBe(2);
+    });
+
+    test("should load better-sqlite3 only when a SQLite store is opened", () => {
+      // Arrange
+      jest.doMock("better-sqlite3", () => {
+        throw new Error("native module unavailable");
+      });
+
+      try {
+        jest.isolateModules(() => {
+          // Act
+          const storage = require("../src/storage") as typeof import("../src/storage");
+
+          // Assert
+          expect(storage.createStorage({ type: "memory" })).toBeInstanceOf(
+            storage.MemoryContextStorage
+          );
+          expect(() => storage.createStorage({ type: "sqlite", filename: ":memory:" })).toThrow(
+            /SQLite storage requires the better-sqlite3 package/
+          );
+        });
+      } finally {
+        jest.dontMock("better-sqlite3");
+      }
+    });
+
+    test("should accept an adapter instance directly", async () => {
+      // Arrange
+      const memory = new MemoryContextStorage();
+      const processor = new ContextProcessor({ storage: memory });
+
+      // Act
+      await processor.save({ title: "Direct", content: "d" });
+
+      // Assert
+      expect(memory.list()).toHaveLength(1);
+    });
+  });
+
+  describe("5.3 SQLite Adapter", () => {
+    test("should persist contexts across connections", () => {
+      // Arrange
+      const first = openSqlite();
+      const context = TestDataGenerator.generateContextItem({ tags: ["b", "a"] });
+      first.save(context);
+      first.close();
+      sqliteStores = [];
+
+      // Act
+      const reopened = openSqlite();
+
+      // Assert
+      expect(reopened.load(context.id)).toEqual(context);
+    });
+
+    test("should replace tags and metadata when a context is overwritten", () => {
+      // Arrange
+      const storage = openSqlite();
+      const context = TestDataGenerator.generateContextItem({
+        tags: ["old"],
+        metadata: { category: "draft" },
+      });
+      storage.save(context);
+
+      // Act
+      storage.save({ ...context, tags: ["new"], metadata: { category: "final" } });
+
+      // Assert
+      expect(storage.search(["old"])).toHaveLength(0);
+      expect(storage.search(["new"])).toHaveLength(1);
+      expect(storage.load(context.id)!.metadata).toEqual({ category: "final" });
+    });
+
+    test("should drop the unused metadata table of schema 2 databases", () => {
+      // Arrange
+      const file = path.join(storageManager.getStorageDir(), "contexts.db");
+      const context = TestDataGenerator.generateContextItem({ metadata: { kind: "note" } });
+      openSqlite().save(context);
+      sqliteStores.pop()!.close();
+      const raw = new Database(file);
+      raw.exec(`
+        CREATE TABLE context_metadata (context_id TEXT, key TEXT, value TEXT);
+        CREATE INDEX idx_contexts_updated ON contexts (updated_at, id);
+      `);
+      raw.pragma("user_version = 2");
+      raw.close();
+
+      // Act
+      const migrated = openSqlite();
+
+      // Assert
+      const check = new Database(file, { readonly: true });
+      const names = check
+        .prepare("SELECT name FROM sqlite_master WHERE type IN ('table', 'index')")
+        .all()
+        .map((row) => (row as { name: string }).name);
+      check.close();
+      expect(names).not.toContain("context_metadata");
+      expect(names).not.toContain("idx_contexts_updated");
+      expect(migrated.load(context.id)).toEqual(context);
+    });
+
+    test("should import an existing contexts directory", () => {
+      // Arrange
+      const source = new ContextStorage(path.join(storageManager.getStorageDir(), "json"));
+      TestDataGenerator.generateContextItems(3, ["imported"]).forEach((ctx) =>
+        source.save(ctx)
+      );
+      const target = openSqlite();
+
+      // Act
+      const imported = target.importFrom(source);
+
+      // Assert
+      expect(imported).toBe(3);
+      expect(target.count(["imported"])).toBe(3);
+    });
+
+    test("should be selectable by configuration", () => {
+      // Act
+      const storage = createStorage({
+        type: "sqlite",
+        filename: path.join(storageManager.getStorageDir(), "configured.db"),
+      });
+      sqliteStores.push(storage as SqliteContextStorage);
+
+      // Assert
+      expect(storage).toBeInstanceOf(SqliteContextStorage);
+    });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Test Scenario 6: Full-Text Search
+ *
+ * This test scenario verifies BM25-ranked search over contexts:
+ * 1. Ranking by title and content relevance
+ * 2. Index maintenance on save and delete
+ * 3. Index persistence and rebuild
+ * 4. Highlighted snippets
+ *
+ * Covers: SearchIndex, ContextProcessor.fullTextSearch, search_contexts tool
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { SearchIndex, highlightSnippet, tokenize } from "../src/search-index";
+import { ContextProcessor } from "../src/processor";
+import { ContextStorage } from "../src/storage";
+import { TestDataGenerator, TestStorageManager } from "./test-utils";
+
+describe("Scenario 6: Full-Text Search", () => {
+  let storageManager: TestStorageManager;
+  let processor: ContextProcessor;
+
+  const createProcessor = () =>
+    new ContextProcessor({
+      storageDir: storageManager.getStorageDir(),
+      modelsPath: path.join(storageManager.getStorageDir(), "missing.json"),
+    });
+
+  beforeEach(() => {
+    storageManager = new TestStorageManager();
+    processor = createProcessor();
+  });
+
+  afterEach(() => {
+    storageManager.cleanup();
+  });
+
+  describe("6.1 Ranking", () => {
+    test("should rank contexts by relevance", async () => {
+      // Arrange
+      await processor.save({
+        title: "Cooking",
+        content: "Recipes for pasta and bread. Authentication is not covered.",
+      });
+      const auth = await processor.save({
+        title: "Authentication Guide",
+        content: "JWT authentication with tokens. Authentication flows explained.",
+      });
+      await processor.save({ title: "Unrelated", content: "Nothing to see here." });
+
+      // Act
+      const results = processor.fullTextSearch({ query: "authentication" });
+
+      // Assert
+      expect(results).toHaveLength(2);
+      expect(results[0].contextId).toBe(auth.id);
+      expect(results[0].score).toBeGreaterThan(results[1].score);
+    });
+
+    test("should weight title matches above content matches", async () => {
+      // Arrange
+      const inContent = await processor.save({
+        title: "Notes",
+        content: "A short note about deployment pipelines and caching.",
+      });
+      const inTitle = await processor.save({
+        title: "Deployment",
+        content: "A short note about pipelines and caching strategies.",
+      });
+
+      // Act
+      const results = processor.fullTextSearch({ query: "deployment" });
+
+      // Assert
+      expect(results.map((r) => r.contextId)).toEqual([inTitle.id, inContent.id]);
+    });
+
+    test("should filter by tags and respect the limit", async () => {
+      // Arrange
+      await processor.save({ title: "API one", content: "api", tags: ["api"] });
+      await processor.save({ title: "API two", content: "api", tags: ["api"] });
+      await processor.save({ title: "API three", content: "api", tags: ["other"] });
+
+      // Act & Assert
+      expect(processor.fullTextSearch({ query: "api", tags: ["api"] })).toHaveLength(2);
+      expect(processor.fullTextSearch({ query: "api", limit: 1 })).toHaveLength(1);
+      expect(processor.fullTextSearch({ query: "the" })).toHaveLength(0);
+    });
+
+    test("should score terms named like object members", async () => {
+      // Arrange
+      const saved = await processor.save({
+        title: "Class basics",
+        content: "The constructor runs before toString is called on the constructor.",
+      });
+
+      // Act
+      const results = processor.fullTextSearch({ query: "constructor tostring" });
+      const reopened = createProcessor().fullTextSearch({ query: "constructor" });
+
+      // Assert
+      expect(results).toHaveLength(1);
+      expect(results[0].contextId).toBe(saved.id);
+      expect(Number.isFinite(results[0].score)).toBe(true);
+      expect(reopened[0].score).toBeGreaterThan(0);
+      expect(processor.list({ text: "constructor", sortBy: "relevance" })).toHaveLength(1);
+    });
+  });
+
+  describe("6.2 Index Maintenance", () => {
+    test("should reflect updates and deletions", async () => {
+      // Arrange
+      const saved = await processor.save({ title: "Draft", content: "kubernetes" });
+
+      // Act
+      await processor.save({ id: saved.id, title: "Draft", content: "terraform" });
+
+      // Assert
+      expect(processor.fullTextSearch({ query: "kubernetes" })).toHaveLength(0);
+      expect(processor.fullTextSearch({ query: "terraform" })).toHaveLength(1);
+
+      processor.delete(saved.id);
+      expect(processor.fullTextSearch({ query: "terraform" })).toHaveLength(0);
+    });
+
+    test("should persist the index next to file storage", async () => {
+      // Arrange
+      await processor.save({ title: "Persisted", content: "graphql schema" });
+
+      // Act
+      const reopened = createProcessor();
+
+      // Assert
+      expect(
+        fs.existsSync(path.join(storageManager.getStorageDir(), ".index", "search.idx"))
+      ).toBe(true);
+      expect(reopened.fullTextSearch({ query: "graphql" })).toHaveLength(1);
+      expect(storageManager.countStoredContexts()).toBe(1);
+    });
+
+    test("should rebuild the index from storage when it is missing", () => {
+      // Arrange
+      const storage = storageManager.createTestStorage();
+      storage.save(
+        TestDataGenerator.generateContextItem({ title: "Legacy", content: "websocket" })
+      );
+
+      // Act
+      const fresh = createProcessor();
+
+      // Assert
+      expect(fresh.fullTextSearch({ query: "websocket" })).toHaveLength(1);
+    });
+
+    test("should share the index between processors on the same storage", async () => {
+      // Arrange
+      const other = createProcessor();
+      const first = await processor.save({ title: "First", content: "kafka topics" });
+
+      // Act
+      await other.save({ title: "Second", content: "kafka consumers" });
+      processor.delete(first.id);
+
+      // Assert
+      expect(other.fullTextSearch({ query: "kafka" })).toHaveLength(1);
+      expect(processor.fullTextSearch({ query: "consumers" })).toHaveLength(1);
+      expect(createProcessor().fullTextSearch({ query: "kafka" })).toHaveLength(1);
+    });
+
+    test("should rebuild a persisted index that is out of date with storage", async () => {
+      // Arrange
+      const saved = await processor.save({ title: "Draft", content: "kubernetes" });
+      new ContextStorage(storageManager.getStorageDir()).save({ ...saved, content: "terraform", updatedAt: saved.updatedAt + 1 });
+
+      // Act
+      const reopened = createProcessor();
+
+      // Assert
+      expect(reopened.fullTextSearch({ query: "kubernetes" })).toHaveLength(0);
+      expect(reopened.fullTextSearch({ query: "terraform" })).toHaveLength(1);
+    });
+
+    test("should compact the index log", async () => {
+      // Arrange
+      const saved = await processor.save({ title: "Draft", content: "v0" });
+      const indexPath = path.join(storageManager.getStorageDir(), ".index", "search.idx");
+
+      // Act
+      for (let i = 1; i <= 150; i++) {
+        await processor.update({ contextId: saved.id, content: `revision${i}` });
+      }
+
+      // Assert
+      const lines = fs.readFileSync(indexPath, "utf-8").trim().split("\n");
+      expect(lines.length).toBeLessThan(110);
+      expect(createProcessor().fullTextSearch({ query: "revision150" })).toHaveLength(1);
+    });
+
+    test("should keep an in-memory index without a path", () => {
+      // Arrange
+      const index = new SearchIndex();
+      index.rebuild([TestDataGenerator.generateContextItem({ content: "redis cache" })]);
+
+      // Assert
+      expect(index.load()).toBe(false);
+      expect(index.size).toBe(1);
+      expect(index.search("redis")).toHaveLength(1);
+    });
+  });
+
+  describe("6.3 Snippets", () => {
+    test("should tokenize without stop words", () => {
+      expect(tokenize("The API, and the SDK!")).toEqual(["api", "sdk"]);
+    });
+
+    test("should highlight matching terms in the snippet", () => {
+      // Act
+      const snippet = highlightSnippet(
+        "Intro text. The Cache layer stores results; cache misses fall through.",
+        ["cache"]
+      );
+
+      // Assert
+      expect(snippet).toContain("**Cache**");
+      expect(snippet).toContain("**cache**");
+    });
+
+    test("should trim long content around the first match", async () => {
+      // Arrange
+      const content = `${"filler ".repeat(50)}the needle is here ${"filler ".repeat(50)}`;
+      await processor.save({ title: "Long", content });
+
+      // Act
+      const [result] = processor.fullTextSearch({ query: "needle" });
+
+      // Assert
+      expect(result.snippet.startsWith("…")).toBe(true);
+      expect(result.snippet.endsWith("…")).toBe(true);
+      expect(result.snippet).toContain("**needle**");
+      expect(result.snippet.length).toBeLessThan(content.length);
+    });
+  });
+});
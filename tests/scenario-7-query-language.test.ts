@@ -0,0 +1,145 @@
+/**
+ * Test Scenario 7: Query Language
+ *
+ * This test scenario verifies query expressions for list_contexts:
+ * 1. Boolean tag filters (AND, OR, NOT, parentheses)
+ * 2. Metadata comparisons
+ * 3. Date ranges with relative and absolute dates
+ * 4. Clear errors for malformed queries
+ *
+ * Covers: compileQuery, QueryParseError, ContextProcessor.list({ query })
+ */
+
+import { compileQuery, QueryParseError } from "../src/query";
+import { ContextProcessor } from "../src/processor";
+import { MemoryContextStorage } from "../src/storage";
+import { TestDataGenerator } from "./test-utils";
+import { ContextItem } from "../src/types";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 5, 15);
+
+describe("Scenario 7: Query Language", () => {
+  const contexts: ContextItem[] = [
+    TestDataGenerator.generateContextItem({
+      id: "a",
+      title: "API Reference",
+      tags: ["api", "auth"],
+      metadata: { category: "tutorial", priority: 3, owner: { team: "core" } },
+      updatedAt: NOW - 2 * DAY,
+    }),
+    TestDataGenerator.generateContextItem({
+      id: "b",
+      title: "Old API Notes",
+      tags: ["api", "auth", "archived"],
+      metadata: { category: "notes", priority: 1 },
+      updatedAt: NOW - 30 * DAY,
+    }),
+    TestDataGenerator.generateContextItem({
+      id: "c",
+      title: "Deployment Guide",
+      tags: ["ops"],
+      metadata: { category: "tutorial", labels: ["infra", "ci"] },
+      updatedAt: NOW - 1 * DAY,
+    }),
+  ];
+
+  const run = (query: string): string[] =>
+    contexts.filter(compileQuery(query, NOW)).map((c) => c.id);
+
+  describe("7.1 Boolean Tag Filters", () => {
+    test("should combine tags with AND and NOT", () => {
+      expect(run("tag:api AND tag:auth AND NOT tag:archived")).toEqual(["a"]);
+    });
+
+    test("should support OR, parentheses and implicit AND", () => {
+      expect(run("tag:ops OR tag:archived")).toEqual(["b", "c"]);
+      expect(run("(tag:ops OR tag:auth) NOT tag:archived")).toEqual(["a", "c"]);
+    });
+
+    test("should treat keywords case-insensitively", () => {
+      expect(run("tag:api and not tag:archived")).toEqual(["a"]);
+    });
+  });
+
+  describe("7.2 Field Comparisons", () => {
+    test("should compare metadata values", () => {
+      expect(run("metadata.category == tutorial")).toEqual(["a", "c"]);
+      expect(run('metadata.category != "tutorial"')).toEqual(["b"]);
+      expect(run("metadata.priority >= 2")).toEqual(["a"]);
+    });
+
+    test("should read nested metadata and array values", () => {
+      expect(run("metadata.owner.team == core")).toEqual(["a"]);
+      expect(run("metadata.labels:ci")).toEqual(["c"]);
+    });
+
+    test("should match titles by substring", () => {
+      expect(run('title ~ "api"')).toEqual(["a", "b"]);
+    });
+  });
+
+  describe("7.3 Date Ranges", () => {
+    test("should filter by relative dates", () => {
+      expect(run("updatedAt >= now-7d")).toEqual(["a", "c"]);
+      expect(run("updatedAt < now-1w")).toEqual(["b"]);
+    });
+
+    test("should filter by absolute dates", () => {
+      expect(run("updatedAt > 2025-06-01")).toEqual(["a", "c"]);
+      expect(run(`updatedAt <= ${NOW - 10 * DAY}`)).toEqual(["b"]);
+    });
+  });
+
+  describe("7.4 Malformed Queries", () => {
+    test.each([
+      ["", /query is empty/],
+      ["tag:api AND", /expected a condition but the query ended/],
+      ["(tag:api", /expected "\)" but the query ended/],
+      ["category == tutorial", /unknown field "category"/],
+      ["tag > api", /operator ">" is not supported for tags/],
+      ["updatedAt > yesterday", /invalid date "yesterday"/],
+      ['title == "open', /unterminated string/],
+      ["tag:api )", /unexpected "\)"/],
+      ["tag api", /expected an operator after "tag"/],
+    ])("should reject %p", (query, message) => {
+      expect(() => compileQuery(query, NOW)).toThrow(QueryParseError);
+      expect(() => compileQuery(query, NOW)).toThrow(message);
+    });
+
+    test("should report the error position", () => {
+      let caught: unknown;
+      try {
+        compileQuery("tag:api AND nope:x", NOW);
+      } catch (error) {
+        caught = error;
+      }
+
+      expect(caught).toBeInstanceOf(QueryParseError);
+      expect((caught as QueryParseError).position).toBe(12);
+    });
+  });
+
+  describe("7.5 Library Integration", () => {
+    test("should apply queries together with tags and pagination", async () => {
+      // Arrange
+      const storage = new MemoryContextStorage();
+      contexts.forEach((c) => storage.save({ ...c, updatedAt: Date.now() }));
+      const processor = new ContextProcessor({ storage });
+
+      // Act & Assert
+      expect(
+        processor.list({ query: "NOT tag:archived" }).map((c) => c.id)
+      ).toEqual(["a", "c"]);
+      expect(
+        processor.list({ tags: ["api"], query: "metadata.category == tutorial" })
+          .map((c) => c.id)
+      ).toEqual(["a"]);
+      expect(
+        processor.list({ query: "updatedAt >= now-1d", limit: 1, offset: 1 })
+          .map((c) => c.id)
+      ).toEqual(["b"]);
+      expect(() => processor.list({ query: "tag:" })).toThrow(QueryParseError);
+    });
+  });
+});
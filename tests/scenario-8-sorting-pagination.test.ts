@@ -0,0 +1,165 @@
+/**
+ * Test Scenario 8: Sorting and Cursor Pagination
+ *
+ * This test scenario verifies list_contexts ordering and paging:
+ * 1. Sorting by createdAt, updatedAt, title and relevance
+ * 2. Offset pagination with filtered totals
+ * 3. Opaque cursors that stay stable while contexts are added
+ *
+ * Covers: ContextProcessor.listPage, pagination helpers
+ */
+
+import { ContextProcessor } from "../src/processor";
+import { MemoryContextStorage } from "../src/storage";
+import { TestDataGenerator } from "./test-utils";
+
+describe("Scenario 8: Sorting and Cursor Pagination", () => {
+  let storage: MemoryContextStorage;
+  let processor: ContextProcessor;
+
+  const ids = (contexts: { id: string }[]) => contexts.map((c) => c.id);
+
+  beforeEach(() => {
+    storage = new MemoryContextStorage();
+    // Saved out of order on purpose: creation order is c1..c5
+    [
+      { id: "c3", title: "charlie", createdAt: 3000, updatedAt: 9000, tags: ["even"] },
+      { id: "c1", title: "Echo", createdAt: 1000, updatedAt: 5000, tags: ["odd"] },
+      { id: "c5", title: "alpha", createdAt: 5000, updatedAt: 6000, tags: ["odd"] },
+      { id: "c2", title: "delta", createdAt: 2000, updatedAt: 8000, tags: ["even"] },
+      { id: "c4", title: "Bravo", createdAt: 4000, updatedAt: 7000, tags: ["odd"] },
+    ].forEach((overrides) =>
+      storage.save(TestDataGenerator.generateContextItem(overrides))
+    );
+    processor = new ContextProcessor({ storage });
+  });
+
+  describe("8.1 Sorting", () => {
+    test("should default to creation order", () => {
+      expect(ids(processor.list())).toEqual(["c1", "c2", "c3", "c4", "c5"]);
+    });
+
+    test("should keep saves within one millisecond in insertion order", async () => {
+      // Arrange
+      const fresh = new ContextProcessor({ storage: new MemoryContextStorage() });
+      jest.spyOn(Date, "now").mockReturnValue(10_000);
+
+      // Act
+      const saved = [];
+      for (let i = 0; i < 10; i++) {
+        saved.push(await fresh.save({ title: `Context ${i}`, content: `${i}` }));
+      }
+      jest.restoreAllMocks();
+
+      // Assert
+      expect(ids(fresh.list())).toEqual(ids(saved));
+      expect(ids(fresh.list({ order: "desc" }))).toEqual(ids(saved).reverse());
+    });
+
+    test("should sort by updatedAt and title in either order", () => {
+      expect(ids(processor.list({ sortBy: "updatedAt", order: "desc" }))).toEqual([
+        "c3", "c2", "c4", "c5", "c1",
+      ]);
+      expect(ids(processor.list({ sortBy: "title" }))).toEqual([
+        "c5", "c4", "c3", "c2", "c1",
+      ]);
+    });
+
+    test("should sort by relevance when free text is given", async () => {
+      // Arrange
+      const strong = await processor.save({
+        title: "Caching",
+        content: "Caching layers and caching policies.",
+      });
+      const weak = await processor.save({
+        title: "Notes",
+        content: "A note that mentions caching once among many other words here.",
+      });
+
+      // Act
+      const page = processor.listPage({ text: "caching" });
+
+      // Assert
+      expect(ids(page.contexts)).toEqual([strong.id, weak.id]);
+      expect(page.total).toBe(2);
+    });
+
+    test("should require text for relevance sorting", () => {
+      expect(() => processor.list({ sortBy: "relevance" })).toThrow(
+        /requires a text query/
+      );
+    });
+  });
+
+  describe("8.2 Offset Pagination", () => {
+    test("should report the filtered total", () => {
+      // Act
+      const page = processor.listPage({ tags: ["odd"], limit: 2 });
+
+      // Assert
+      expect(ids(page.contexts)).toEqual(["c1", "c4"]);
+      expect(page.total).toBe(3);
+      expect(page.nextCursor).toBeDefined();
+    });
+
+    test("should apply offset without a limit", () => {
+      expect(ids(processor.list({ offset: 3 }))).toEqual(["c4", "c5"]);
+      expect(processor.listPage({ query: "tag:even", offset: 1 }).total).toBe(2);
+    });
+  });
+
+  describe("8.3 Cursor Pagination", () => {
+    test("should walk every page with cursors", () => {
+      // Act
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = processor.listPage({
+          sortBy: "title",
+          order: "desc",
+          limit: 2,
+          cursor,
+        });
+        seen.push(...ids(page.contexts));
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      // Assert
+      expect(seen).toEqual(["c1", "c2", "c3", "c4", "c5"]);
+    });
+
+    test("should stay stable when contexts are added before the cursor", () => {
+      // Arrange
+      const first = processor.listPage({ limit: 2 });
+
+      // Act
+      storage.save(
+        TestDataGenerator.generateContextItem({ id: "c0", createdAt: 500 })
+      );
+      const second = processor.listPage({ limit: 2, cursor: first.nextCursor });
+
+      // Assert
+      expect(ids(first.contexts)).toEqual(["c1", "c2"]);
+      expect(ids(second.contexts)).toEqual(["c3", "c4"]);
+      expect(second.total).toBe(6);
+    });
+
+    test("should reject invalid or mismatched cursors", () => {
+      // Arrange
+      const { nextCursor } = processor.listPage({ limit: 1 });
+
+      // Assert
+      expect(() => processor.list({ cursor: "not-a-cursor" })).toThrow(
+        "Invalid cursor"
+      );
+      expect(() =>
+        processor.list({ cursor: nextCursor, sortBy: "title" })
+      ).toThrow(/Cursor was created for sortBy "createdAt"/);
+    });
+
+    test("should omit the cursor on the last page", () => {
+      expect(processor.listPage({ limit: 5 }).nextCursor).toBeUndefined();
+      expect(processor.listPage({ limit: 3, offset: 2 }).nextCursor).toBeUndefined();
+    });
+  });
+});
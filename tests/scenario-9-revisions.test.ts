@@ -0,0 +1,199 @@
+/**
+ * Test Scenario 9: Revision History
+ *
+ * This test scenario verifies context versioning:
+ * 1. Every save, update and restore is recorded with author, source and a diff summary
+ * 2. Restoring a revision keeps the id and is itself undoable
+ * 3. Retention by count and by age
+ * 4. Persistence next to file storage
+ *
+ * Covers: RevisionHistory, summarizeChanges, ContextProcessor revision methods
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { RevisionHistory, summarizeChanges } from "../src/revisions";
+import { ContextProcessor } from "../src/processor";
+import { MemoryContextStorage } from "../src/storage";
+import { TestDataGenerator, TestStorageManager } from "./test-utils";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("Scenario 9: Revision History", () => {
+  let storageManager: TestStorageManager;
+  let processor: ContextProcessor;
+
+  beforeEach(() => {
+    storageManager = new TestStorageManager();
+    processor = new ContextProcessor({
+      storageDir: storageManager.getStorageDir(),
+      modelsPath: path.join(storageManager.getStorageDir(), "missing.json"),
+    });
+  });
+
+  afterEach(() => {
+    storageManager.cleanup();
+  });
+
+  describe("9.1 Recording Revisions", () => {
+    test("should record each change with author, source and summary", async () => {
+      // Arrange
+      const saved = await processor.save({
+        title: "Guide",
+        content: "line one\nline two",
+        tags: ["draft"],
+        author: "alice",
+        source: "save_context",
+      });
+
+      // Act
+      await processor.update({
+        contextId: saved.id,
+        title: "Guide v2",
+        content: "line one\nline three\nline four",
+        addTags: ["reviewed"],
+        removeTags: ["draft"],
+        metadata: { status: "final" },
+        author: "bob",
+      });
+      const revisions = processor.listRevisions(saved.id);
+
+      // Assert
+      expect(revisions.map((r) => r.revision)).toEqual([1, 2]);
+      expect(revisions[0]).toMatchObject({
+        author: "alice",
+        source: "save_context",
+        summary: "created",
+      });
+      expect(revisions[1].author).toBe("bob");
+      expect(revisions[1].summary).toBe(
+        "title changed; content +2/-1 lines; tags +reviewed -draft; metadata status"
+      );
+      expect(revisions[1].snapshot.title).toBe("Guide v2");
+    });
+
+    test("should summarize unchanged saves", () => {
+      const context = TestDataGenerator.generateContextItem();
+      expect(summarizeChanges(context, { ...context })).toBe("no changes");
+    });
+
+    test("should drop history when a context is deleted", async () => {
+      // Arrange
+      const saved = await processor.save({ title: "Temp", content: "x" });
+
+      // Act
+      processor.delete(saved.id);
+
+      // Assert
+      expect(processor.listRevisions(saved.id)).toEqual([]);
+    });
+  });
+
+  describe("9.2 Restoring Revisions", () => {
+    test("should restore content while keeping id and createdAt", async () => {
+      // Arrange
+      const saved = await processor.save({ title: "Good", content: "good content" });
+      await processor.update({ contextId: saved.id, content: "worse content" });
+
+      // Act
+      const restored = processor.restoreRevision({
+        contextId: saved.id,
+        revision: 1,
+        author: "carol",
+      });
+
+      // Assert
+      expect(restored!.id).toBe(saved.id);
+      expect(restored!.createdAt).toBe(saved.createdAt);
+      expect(processor.load(saved.id)!.content).toBe("good content");
+      expect(processor.fullTextSearch({ query: "good" })).toHaveLength(1);
+
+      const latest = processor.listRevisions(saved.id).pop()!;
+      expect(latest).toMatchObject({ revision: 3, source: "restore", author: "carol" });
+      expect(latest.summary).toBe("restored revision 1 (content +1/-1 lines)");
+    });
+
+    test("should return null for unknown contexts or revisions", async () => {
+      // Arrange
+      const saved = await processor.save({ title: "T", content: "c" });
+
+      // Assert
+      expect(processor.restoreRevision({ contextId: saved.id, revision: 9 })).toBeNull();
+      expect(processor.restoreRevision({ contextId: "missing", revision: 1 })).toBeNull();
+      expect(processor.getRevision(saved.id, 1)!.snapshot.title).toBe("T");
+    });
+  });
+
+  describe("9.3 Retention", () => {
+    test("should keep only the last N revisions", async () => {
+      // Arrange
+      const limited = new ContextProcessor({
+        storage: new MemoryContextStorage(),
+        revisions: { maxRevisions: 2 },
+      });
+      const saved = await limited.save({ title: "v1", content: "c" });
+
+      // Act
+      await limited.update({ contextId: saved.id, title: "v2" });
+      await limited.update({ contextId: saved.id, title: "v3" });
+
+      // Assert
+      expect(limited.listRevisions(saved.id).map((r) => r.revision)).toEqual([2, 3]);
+    });
+
+    test("should keep revisions by age alone when maxRevisions is 0", async () => {
+      // Arrange
+      const unlimited = new ContextProcessor({
+        storage: new MemoryContextStorage(),
+        revisions: { maxRevisions: 0, maxAgeDays: 7 },
+      });
+      const saved = await unlimited.save({ title: "v1", content: "c" });
+
+      // Act
+      for (let i = 2; i <= 60; i++) {
+        await unlimited.update({ contextId: saved.id, title: `v${i}` });
+      }
+
+      // Assert
+      expect(unlimited.listRevisions(saved.id)).toHaveLength(60);
+    });
+
+    test("should drop revisions older than N days but keep the latest", () => {
+      // Arrange
+      const history = new RevisionHistory(undefined, { maxAgeDays: 7 });
+      const old = TestDataGenerator.generateContextItem({ updatedAt: Date.now() - 30 * DAY });
+
+      // Act
+      history.record(old, null);
+      history.record({ ...old, title: "Recent", updatedAt: Date.now() }, old);
+      const onlyOld = new RevisionHistory(undefined, { maxAgeDays: 7 });
+      onlyOld.record(old, null);
+
+      // Assert
+      expect(history.list(old.id).map((r) => r.revision)).toEqual([2]);
+      expect(onlyOld.list(old.id)).toHaveLength(1);
+    });
+  });
+
+  describe("9.4 Persistence", () => {
+    test("should persist history next to file storage", async () => {
+      // Arrange
+      const saved = await processor.save({ title: "Persisted", content: "c" });
+      await processor.update({ contextId: saved.id, title: "Persisted v2" });
+
+      // Act
+      const reopened = new ContextProcessor({
+        storageDir: storageManager.getStorageDir(),
+      });
+
+      // Assert
+      expect(
+        fs.existsSync(
+          path.join(storageManager.getStorageDir(), ".revisions", `${saved.id}.json`)
+        )
+      ).toBe(true);
+      expect(reopened.listRevisions(saved.id)).toHaveLength(2);
+      expect(storageManager.countStoredContexts()).toBe(1);
+    });
+  });
+});